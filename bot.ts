@@ -1,26 +1,90 @@
 import "dotenv/config";
 import { Bot, Context } from "grammy";
+import type { PhotoSize } from "grammy/types";
 import {
   safeReply,
   safeSendMessage,
   safeEditMessageText,
-  hash,
+  downloadTelegramFile,
   pickRandom,
+  textWithMention,
 } from "./utils/telegram.js";
 import JsonFileDb from "./utils/db.js";
-import { updatePollData } from "./utils/poll.js";
-import { registerVoteCommands } from "./commands/vote.js";
+import {
+  registerVoteCommands,
+  closeDuePolls,
+  pruneOldPolls,
+} from "./commands/vote.js";
+import { createPoll, normalizePollOptions } from "./utils/pollService.js";
+import { parseCommandArgs } from "./utils/args.js";
+import { summarizeLunches } from "./utils/lunchStats.js";
+import { DEFAULT_MENU, listMenus } from "./utils/menu.js";
 import fs from "fs";
-import { generateText, stepCountIs } from "ai";
-import { getCurrentNumber } from "./utils/number.js";
+import { embedMany, generateText, streamText, stepCountIs } from "ai";
+import { QueueStatus, getCurrentNumber, pollQueue } from "./utils/number.js";
+import {
+  getTodayDate,
+  toTaipeiDate,
+  formatTaipeiTime,
+  parseDeadline,
+} from "./utils/date.js";
 import {
   Subscription,
+  MAX_LEAD,
   addSubscription,
+  markSubscriptionStage,
+  parseLead,
   removeSubscription,
-  findSubscription,
+  findSubscriptions,
+  getSubscriptionShop,
+  getSubscriptionAge,
+  getSubscriptionLifetime,
+  markSubscriptionWarned,
+  EXPIRY_WARNING_MS,
+  isSubscriptionDayOver,
+  pauseSubscription,
+  resumeSubscription,
   getAll as getAllSubscriptions,
-  saveAll as saveSubscriptions,
 } from "./utils/subscription.js";
+import {
+  registerSubscriptionCommands,
+  subscribeFailureText,
+  formatTargetNumbers,
+  leadText,
+  rateText,
+  etaText,
+  shopLabel,
+  healthText,
+  extendButton,
+} from "./commands/subscription.js";
+import { isQuietTime } from "./utils/userSettings.js";
+import { isChatAdmin } from "./utils/admin.js";
+import {
+  getQueueSource,
+  listQueueSources,
+  isKnownShop,
+} from "./utils/queueSource.js";
+import {
+  getCallingRate,
+  estimateWaitMinutes,
+  summarizeDay,
+} from "./utils/numberHistory.js";
+import { registerBoardCommands, refreshBoards } from "./commands/board.js";
+import { registerTicketCommands } from "./commands/ticket.js";
+import { registerPersonaCommands } from "./commands/persona.js";
+import {
+  DEFAULT_PERSONA,
+  TAROT_PERSONA,
+  filterPersonaTools,
+  getChatPersona,
+  getPersona,
+} from "./utils/persona.js";
+import { getChatSettings, getChatShop } from "./utils/chatSettings.js";
+import {
+  createDeepLinkToken,
+  consumeDeepLinkToken,
+  readDeepLinkToken,
+} from "./utils/deepLink.js";
 import {
   addSticker,
   getRandomSticker,
@@ -28,6 +92,11 @@ import {
   getPopularStickers,
   getStickerStats,
 } from "./utils/sticker.js";
+import {
+  Bm25Ranker,
+  EmbeddingRanker,
+  MemoryRanker,
+} from "./utils/memorySearch.js";
 import { z } from "zod";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 
@@ -36,16 +105,16 @@ const gateway = createOpenRouter({
   baseURL: process.env.OPENWEBUI_BASE_URL,
 });
 
-// ----------------- System prompt for AI generation -----------------
-const systemPrompt = fs.readFileSync("./prompts/rongou-sj.md", "utf8").trim();
-const systemPromptTarot = fs
-  .readFileSync("./prompts/tarot-sj.md", "utf8")
-  .trim();
 // ----------------- Environment Validation -----------------
 if (!process.env.BOT_TOKEN) {
   console.error("❌ BOT_TOKEN environment variable is missing! Bot will exit.");
   process.exit(1);
 }
+if (!getPersona(DEFAULT_PERSONA)) {
+  console.error(
+    `⚠️ prompts/${DEFAULT_PERSONA}.md is missing or broken, using the built-in prompt.`
+  );
+}
 
 let botUsername: null | string;
 async function getBotUsername(ctx: Context) {
@@ -70,7 +139,7 @@ if (!fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true });
 }
 
-// voteData handled in utils/poll.js
+// voteData handled in utils/pollService.js
 const usageLog = new JsonFileDb("usage.json");
 const historyData = new JsonFileDb("chatHistories.json");
 const usageQuotaDb = new JsonFileDb("usageQuota.json");
@@ -79,15 +148,18 @@ interface UsageStats {
   users: Record<number, { date: string; count: number }>;
   groups: Record<number, { date: string; count: number }>;
   global?: { date: string; count: number };
+  // Image quota, counted apart from messages
+  image_users?: Record<number, { date: string; count: number }>;
+  image_groups?: Record<number, { date: string; count: number }>;
 }
 
-function getTodayDate(): string {
-  // Use Taipei timezone (UTC+8)
-  const taipeiDate = new Date().toLocaleDateString("sv-SE", {
-    timeZone: "Asia/Taipei",
-  }); // Returns YYYY-MM-DD format
-  return taipeiDate;
-}
+// Images cost far more tokens than text, so they get their own daily quota
+const IMAGE_QUOTA_PRIVATE = 10;
+const IMAGE_QUOTA_GROUP = 20;
+// Largest photo downloaded for the model
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// getTodayDate moved to utils/date.js
 
 function getTimeUntilReset(): string {
   // Get current time in Taipei timezone
@@ -185,6 +257,78 @@ function checkAndIncrementQuota(ctx: Context): boolean {
   return true;
 }
 
+function imageQuotaCounters(ctx: Context) {
+  const stats: UsageStats = (usageQuotaDb.get("stats") as UsageStats) ?? {
+    users: {},
+    groups: {},
+  };
+  const isPrivate = ctx.chat.type === "private";
+  return {
+    stats,
+    isPrivate,
+    counters: (isPrivate ? stats.image_users : stats.image_groups) ?? {},
+    id: isPrivate ? ctx.from!.id : ctx.chat.id,
+    limit: isPrivate ? IMAGE_QUOTA_PRIVATE : IMAGE_QUOTA_GROUP,
+  };
+}
+
+function hasImageQuota(ctx: Context, count: number): boolean {
+  const { counters, id, limit } = imageQuotaCounters(ctx);
+  const entry = counters[id];
+  const used = entry?.date === getTodayDate() ? entry.count : 0;
+  return used + count <= limit;
+}
+
+function incrementImageQuota(ctx: Context, count: number): void {
+  if (count === 0) return;
+  const today = getTodayDate();
+  const { stats, isPrivate, counters, id } = imageQuotaCounters(ctx);
+
+  let entry = counters[id] ?? { date: today, count: 0 };
+  if (entry.date !== today) entry = { date: today, count: 0 };
+  entry.count += count;
+  counters[id] = entry;
+
+  // Only today's counters matter
+  for (const [key, e] of Object.entries(counters)) {
+    if (e.date !== today) delete counters[Number(key)];
+  }
+  if (isPrivate) stats.image_users = counters;
+  else stats.image_groups = counters;
+  usageQuotaDb.set("stats", stats);
+}
+
+// Replied-to photos already charged today, as `${chatId}:${file_unique_id}`
+// → date, so a thread of questions under one photo costs one image
+const chargedReplyPhotos = new Map<string, string>();
+
+/**
+ * How many images to charge for these photos, remembering replied-to ones.
+ */
+function chargeablePhotoCount(
+  chatId: number,
+  photo: PhotoSize[] | undefined,
+  repliedPhoto: PhotoSize[] | undefined
+): number {
+  const today = getTodayDate();
+  for (const [key, date] of chargedReplyPhotos) {
+    if (date !== today) chargedReplyPhotos.delete(key);
+  }
+  let count = photo ? 1 : 0;
+  if (repliedPhoto) {
+    const key = `${chatId}:${repliedPhoto[0].file_unique_id}`;
+    if (!chargedReplyPhotos.has(key)) count++;
+  }
+  return count;
+}
+
+function markReplyPhotoCharged(chatId: number, repliedPhoto: PhotoSize[]) {
+  chargedReplyPhotos.set(
+    `${chatId}:${repliedPhoto[0].file_unique_id}`,
+    getTodayDate()
+  );
+}
+
 // -------- Quota limit messages & helper --------
 function getLimitMessage(): string {
   const timeLeft = getTimeUntilReset();
@@ -221,6 +365,7 @@ interface Memory {
   userName?: string; // 記錄是誰說的
   userId?: number; // 使用者ID
   chatId: number; // 聊天室ID
+  pinned?: boolean; // 釘選的記憶一定會放進上下文，也不會被擠掉
 }
 
 const chatHistories = new Map<number, ChatHistory>();
@@ -272,7 +417,7 @@ function logActivity(activity: string, data: Record<string, unknown>): void {
 
 function shouldRespond(ctx: Context, botName: string): boolean {
   if (ctx.chat.type === "private") return true;
-  const text = ctx.message?.text || "";
+  const text = ctx.message?.text || ctx.message?.caption || "";
   const mentionRegex = new RegExp(`@${botName}\\b`, "i");
   const repliedToBot =
     ctx.message?.reply_to_message?.from?.username === botName ||
@@ -315,24 +460,41 @@ bot.command("start", async (ctx) => {
   }
 
   try {
-    const decodedPayload = Buffer.from(payloadStr, "base64").toString("utf8");
-    const params = Object.fromEntries(
-      new URLSearchParams(decodedPayload).entries()
-    );
+    const link = readDeepLinkToken(payloadStr, ctx.from.id);
+    if ("reason" in link) {
+      logActivity("start_rejected", {
+        from: ctx.from,
+        reason: link.reason,
+      });
+      return ctx.reply(
+        link.reason === "wrong_user"
+          ? "🗣️ 告老師喔！這顆按鈕不是給你按的，自己去打 `/number`，你很奇欸。"
+          : "⌛ 這個連結過期了，回群組再打一次 `/number` 吧，醬子。",
+        { parse_mode: "Markdown" }
+      );
+    }
     const {
       action,
-      group_chat_id,
+      chat_id: chatId,
       target_number,
       user_message_id,
       group_message_id,
-    } = params;
+      lead,
+      shop,
+    } = link.payload;
+
+    // The link was issued in a group; make sure the user is still there
+    const member = await bot.api.getChatMember(chatId, ctx.from.id);
+    if (member.status === "left" || member.status === "kicked") {
+      return ctx.reply("🗣️ 你已經不在那個群組了，告老師喔！");
+    }
 
     if (action === "subscribe") {
       const userId = ctx.from.id;
-      const chatId = Number(group_chat_id);
-      const targetNumber = Number(target_number);
+      const targetNumber = target_number;
+      const shopId = shop && isKnownShop(shop) ? shop : getChatShop(chatId);
 
-      const currentNumber = await getCurrentNumber();
+      const currentNumber = await getCurrentNumber(shopId);
       if (currentNumber === null) {
         return ctx.reply("😵‍💫 挖哩咧，偶拿不到號碼，很遜欸，等等再試。");
       }
@@ -341,47 +503,47 @@ bot.command("start", async (ctx) => {
         return ctx.reply("🤡 都跟你說過號了，你很奇欸。");
       }
 
-      const existingSub = findSubscription(chatId, userId);
-
-      if (existingSub) {
-        return ctx.reply(
-          `⚠️ 你已經訂閱 ${existingSub.target_number} 號了，不要重複訂，很遜。`
-        );
-      }
-
-      addSubscription(
+      const added = addSubscription(
         chatId,
         userId,
         ctx.from.first_name,
         targetNumber,
-        Number(user_message_id)
+        user_message_id,
+        {
+          lead: lead ?? getChatSettings(chatId).default_lead ?? 0,
+          shop: shopId,
+        }
       );
 
+      if ("reason" in added) {
+        return ctx.reply(subscribeFailureText(added.reason, targetNumber));
+      }
+      consumeDeepLinkToken(payloadStr);
+
       await ctx.reply(
-        `👑 哼嗯，*${targetNumber}* 號是吧？偶記下了，怕的是他。`,
+        `👑 哼嗯，${shopLabel(
+          shopId
+        )}*${targetNumber}* 號是吧？偶記下了，怕的是他。${leadText(
+          added.sub.lead
+        )}\n${etaText(shopId, targetNumber, currentNumber)}`,
         { parse_mode: "Markdown" }
       );
       await bot.api.sendMessage(
         chatId,
-        `✅ ${ctx.from.first_name} 已訂閱 ${targetNumber} 號。`,
-        { reply_to_message_id: Number(user_message_id) }
+        `✅ ${ctx.from.first_name} 已訂閱 ${shopLabel(
+          shopId
+        )}${targetNumber} 號。`,
+        { reply_to_message_id: user_message_id }
       );
     } else if (action === "unsubscribe") {
       const userId = ctx.from.id;
-      const chatId = Number(group_chat_id);
+      const shopId = shop && isKnownShop(shop) ? shop : undefined;
+      const sub = removeSubscription(chatId, userId, target_number, shopId);
 
-      const subscriptions: Subscription[] =
-        (getAllSubscriptions() as Subscription[] | undefined) ?? [];
-      const subIndex = subscriptions.findIndex(
-        (s) => s.chat_id === chatId && s.user_id === userId
-      );
-
-      if (subIndex === -1) {
+      if (!sub) {
         return ctx.reply("🗣️ 你又沒訂閱，是在取消什麼，告老師喔！");
       }
-
-      const sub = subscriptions[subIndex];
-      removeSubscription(chatId, userId);
+      consumeDeepLinkToken(payloadStr);
 
       await ctx.reply(
         `🚫 哼嗯，偶幫你取消 *${sub.target_number}* 號的訂閱了。醬子。`,
@@ -392,7 +554,7 @@ bot.command("start", async (ctx) => {
         const unsubscribedText = `✅ @${ctx.from.first_name} 已取消 *${sub.target_number}* 號的訂閱了。`;
         await bot.api.editMessageText(
           chatId,
-          Number(group_message_id),
+          group_message_id,
           unsubscribedText,
           { parse_mode: "Markdown" }
         );
@@ -410,10 +572,22 @@ bot.command("number", async (ctx) => {
     chat: ctx.chat,
     text: ctx.message.text,
   });
+  const parsed = await parseCommandArgs(
+    ctx,
+    "用法：`/number [店] [你的號碼] [-提前幾號]`，像 `/number 1150 -10`。"
+  );
+  if (!parsed) return;
   ctx.api.sendChatAction(ctx.chat.id, "typing");
-  let args = ctx.message.text.split(" ").slice(1);
+  const args = parsed.args;
+
+  // Optional shop id first, e.g. `/number gonokami 1150`
+  const shopId = isKnownShop(args[0] ?? "")
+    ? args.shift()
+    : getChatShop(ctx.chat.id);
+  const source = getQueueSource(shopId);
 
-  const currentNumber = await getCurrentNumber();
+  const status = await pollQueue(shopId);
+  const currentNumber = status?.number ?? null;
 
   if (currentNumber === null) {
     return ctx.reply("挖哩咧 😵‍💫，偶拿不到號碼，很遜欸。", {
@@ -422,54 +596,72 @@ bot.command("number", async (ctx) => {
   }
 
   const targetNumber = args[0];
-  let responseText = `👑 哼嗯，現在號碼是 *${currentNumber}*，醬子。`;
-
-  // Private Chat Logic
-  if (ctx.chat.type === "private") {
-    const subscriptions: Subscription[] =
-      (getAllSubscriptions() as Subscription[] | undefined) ?? [];
-    const existingSub = findSubscription(ctx.chat.id, ctx.from.id);
-
-    if (!targetNumber && existingSub) {
-      removeSubscription(ctx.chat.id, ctx.from.id);
-      return ctx.reply(
-        `🚫 哼嗯，偶幫你取消 *${existingSub.target_number}* 號的訂閱了。醬子。`,
-        { parse_mode: "Markdown" }
-      );
-    }
-
-    if (existingSub) {
-      responseText += `\n✅ 你已經訂閱 *${existingSub.target_number}* 號了。想取消？打 \`/number\` 就好，醬子。`;
-      return safeReply(ctx, responseText, {
+  let responseText = `👑 哼嗯，${shopLabel(
+    shopId
+  )}現在號碼是 *${currentNumber}*，醬子。${rateText(shopId)}`;
+  const health = healthText(status);
+  if (health) responseText += `\n${health}`;
+  const existingSubs = findSubscriptions(ctx.chat.id, ctx.from.id, shopId);
+
+  // Optional early-warning distance, e.g. `/number 1150 -10`
+  const leadArg = args[1];
+  const lead =
+    leadArg !== undefined
+      ? parseLead(leadArg)
+      : getChatSettings(ctx.chat.id).default_lead ?? 0;
+  if (lead === null) {
+    return safeReply(
+      ctx,
+      `🗣️ 告老師喔！提前提醒要打 0 到 ${MAX_LEAD} 的數字，像 \`/number 1150 -10\`，你很兩光欸。`,
+      {
         parse_mode: "Markdown",
         reply_to_message_id: ctx.message.message_id,
-      });
-    }
+      }
+    );
+  }
 
-    const numTarget = Number(targetNumber);
-    const isValidNumber =
-      targetNumber !== undefined &&
-      !Number.isNaN(numTarget) &&
-      Number.isInteger(numTarget) &&
-      numTarget >= 1001 &&
-      numTarget <= 1200 &&
-      String(numTarget).length <= 4;
+  const numTarget = Number(targetNumber);
+  const isValidNumber =
+    targetNumber !== undefined &&
+    !Number.isNaN(numTarget) &&
+    Number.isInteger(numTarget) &&
+    numTarget >= source.minNumber &&
+    numTarget <= source.maxNumber;
 
+  // Private Chat Logic
+  if (ctx.chat.type === "private") {
     if (isValidNumber) {
       if (numTarget > currentNumber) {
-        addSubscription(
+        const added = addSubscription(
           ctx.chat.id,
           ctx.from.id,
           ctx.from.first_name,
           numTarget,
-          ctx.message.message_id
+          ctx.message.message_id,
+          { lead, shop: shopId }
         );
-        responseText += `\n👑 哼嗯，*${numTarget}* 號是吧？偶記下了，怕的是他。想取消再打一次 \`/number\` 就好。`;
+        if ("reason" in added) {
+          responseText += `\n${subscribeFailureText(added.reason, numTarget)}`;
+        } else {
+          responseText += `\n👑 哼嗯，*${numTarget}* 號是吧？偶記下了，怕的是他。${leadText(
+            lead
+          )}想取消打 \`/mysubs\` 就好。`;
+          responseText += `\n${etaText(shopId, numTarget, currentNumber)}`;
+        }
       } else {
         responseText += `\n🤡 這位同學，*${numTarget}* 已經過了，你很奇欸。`;
       }
     } else if (targetNumber) {
-      responseText += `\n🗣️ 告老師喔！號碼亂打，要輸入 1001 到 1200 的數字啦，你很兩光欸。`;
+      responseText += `\n🗣️ 告老師喔！號碼亂打，要輸入 ${source.minNumber} 到 ${source.maxNumber} 的數字啦，你很兩光欸。`;
+    } else if (existingSubs.length > 0) {
+      responseText += `\n✅ 你訂閱了 ${formatTargetNumbers(
+        existingSubs
+      )} 號。想取消打 \`/mysubs\`，醬子。`;
+      responseText += `\n${etaText(
+        shopId,
+        existingSubs[0].target_number,
+        currentNumber
+      )}`;
     } else {
       responseText += `\n\n想訂閱叫號？打 \`/number <你的號碼>\`，偶幫你記著，很ㄅㄧㄤˋ吧 ✨。`;
     }
@@ -481,54 +673,66 @@ bot.command("number", async (ctx) => {
   }
   // Group Chat Logic
   else {
-    const existingSub = findSubscription(ctx.chat.id, ctx.from.id);
     const username = await getBotUsername(ctx);
 
-    if (existingSub) {
-      responseText += `\n✅ 你訂閱的 *${existingSub.target_number}* 號偶記下了，怕的是他。叫到再跟你說，安安。`;
+    if (!targetNumber && existingSubs.length > 0) {
+      responseText += `\n✅ 你訂閱的 ${formatTargetNumbers(
+        existingSubs
+      )} 號偶記下了，怕的是他。叫到再跟你說，安安。`;
+      responseText += `\n${etaText(
+        shopId,
+        existingSubs[0].target_number,
+        currentNumber
+      )}`;
       const sentMessage = await safeReply(ctx, responseText, {
         parse_mode: "Markdown",
         reply_to_message_id: ctx.message.message_id,
       });
 
-      const payload = `action=unsubscribe&group_chat_id=${ctx.chat.id}&group_message_id=${sentMessage.message_id}`;
-      const base64Payload = Buffer.from(payload).toString("base64");
-      const url = `https://t.me/${username}?start=${base64Payload}`;
+      const inline_keyboard = existingSubs.map((sub) => {
+        const token = createDeepLinkToken({
+          action: "unsubscribe",
+          user_id: ctx.from.id,
+          chat_id: ctx.chat.id,
+          group_message_id: sentMessage.message_id,
+          target_number: sub.target_number,
+          shop: shopId,
+        });
+        const url = `https://t.me/${username}?start=${token}`;
+        return [
+          {
+            text: `🚫 私訊偶取消 ${sub.target_number}`,
+            url,
+          },
+        ];
+      });
 
       await ctx.api.editMessageReplyMarkup(
         ctx.chat.id,
         sentMessage.message_id,
         {
-          reply_markup: {
-            inline_keyboard: [
-              [
-                {
-                  text: "🚫 私訊偶取消",
-                  url,
-                },
-              ],
-            ],
-          },
+          reply_markup: { inline_keyboard },
         }
       );
       return;
     }
 
-    const numTargetGrp = Number(targetNumber);
-    const isValidNumber =
-      targetNumber !== undefined &&
-      !Number.isNaN(numTargetGrp) &&
-      Number.isInteger(numTargetGrp) &&
-      numTargetGrp >= 1001 &&
-      numTargetGrp <= 1200 &&
-      String(numTargetGrp).length <= 4;
-
     if (isValidNumber) {
-      if (numTargetGrp > currentNumber) {
-        responseText += `\n🤔 你這 *${numTargetGrp}* 號還沒到，想訂閱就私訊偶，怕的是他。`;
-        const payload = `action=subscribe&target_number=${numTargetGrp}&group_chat_id=${ctx.chat.id}&user_message_id=${ctx.message.message_id}`;
-        const base64Payload = Buffer.from(payload).toString("base64");
-        const url = `https://t.me/${username}?start=${base64Payload}`;
+      if (existingSubs.some((s) => s.target_number === numTarget)) {
+        responseText += `\n✅ 你訂閱的 *${numTarget}* 號偶記下了，怕的是他。叫到再跟你說，安安。`;
+      } else if (numTarget > currentNumber) {
+        responseText += `\n🤔 你這 *${numTarget}* 號還沒到，按下面偶叫到就在這裡喊你，怕的是他。`;
+        responseText += `\n${etaText(shopId, numTarget, currentNumber)}`;
+        const token = createDeepLinkToken({
+          action: "subscribe",
+          user_id: ctx.from.id,
+          chat_id: ctx.chat.id,
+          user_message_id: ctx.message.message_id,
+          target_number: numTarget,
+          lead,
+          shop: shopId,
+        });
+        const url = `https://t.me/${username}?start=${token}`;
         return safeReply(ctx, responseText, {
           parse_mode: "Markdown",
           reply_to_message_id: ctx.message.message_id,
@@ -536,7 +740,13 @@ bot.command("number", async (ctx) => {
             inline_keyboard: [
               [
                 {
-                  text: "🔔 私訊偶訂閱",
+                  text: "🔔 叫到提醒我",
+                  callback_data: `watch_${shopId}_${numTarget}_${lead}`,
+                },
+              ],
+              [
+                {
+                  text: "💌 私訊偶訂閱",
                   url,
                 },
               ],
@@ -544,10 +754,10 @@ bot.command("number", async (ctx) => {
           },
         });
       } else {
-        responseText += `\n🤡 這位同學，*${numTargetGrp}* 已經過了，你很奇欸。`;
+        responseText += `\n🤡 這位同學，*${numTarget}* 已經過了，你很奇欸。`;
       }
     } else if (targetNumber) {
-      responseText += `\n🗣️ 告老師喔！號碼亂打，要輸入 1001 到 1200 的數字啦，你很兩光欸。`;
+      responseText += `\n🗣️ 告老師喔！號碼亂打，要輸入 ${source.minNumber} 到 ${source.maxNumber} 的數字啦，你很兩光欸。`;
     } else {
       responseText += `\n\n想訂閱叫號？打 \`/number <你的號碼>\`，偶幫你記著，很ㄅㄧㄤˋ吧 ✨。`;
     }
@@ -559,56 +769,239 @@ bot.command("number", async (ctx) => {
   }
 });
 
+/**
+ * Resolve a `/numberstats` date argument to a Taipei day (YYYY-MM-DD).
+ * Accepts YYYY-MM-DD, MM-DD, 昨天 / yesterday, or nothing for today.
+ */
+function parseStatsDate(arg?: string): string | null {
+  if (!arg) return getTodayDate();
+  if (arg === "昨天" || arg === "yesterday") {
+    return toTaipeiDate(Date.now() - 24 * 60 * 60 * 1000);
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(arg)) return arg;
+  if (/^\d{1,2}-\d{1,2}$/.test(arg)) {
+    const [m, d] = arg.split("-");
+    return `${getTodayDate().slice(0, 4)}-${m.padStart(2, "0")}-${d.padStart(
+      2,
+      "0"
+    )}`;
+  }
+  return null;
+}
+
+bot.command("numberstats", async (ctx) => {
+  logActivity("numberstats", {
+    from: ctx.from,
+    chat: ctx.chat,
+    text: ctx.message.text,
+  });
+  const parsed = await parseCommandArgs(
+    ctx,
+    "用法：`/numberstats [店] [日期]`，日期可以打 `2025-06-01`、`06-01` 或 `昨天`。"
+  );
+  if (!parsed) return;
+  const args = parsed.args;
+  const shopId = isKnownShop(args[0] ?? "")
+    ? args.shift()
+    : getChatShop(ctx.chat.id);
+  const date = parseStatsDate(args[0]);
+  if (!date) {
+    return ctx.reply(
+      "🗣️ 告老師喔！日期要打 `2025-06-01`、`06-01` 或 `昨天`，你很兩光欸。",
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  }
+
+  const summary = summarizeDay(shopId, date);
+  if (!summary) {
+    return ctx.reply(`🤔 ${date} 偶沒有記到任何叫號，那天可能沒開吧。`, {
+      reply_to_message_id: ctx.message.message_id,
+    });
+  }
+
+  let text = `📊 *${shopLabel(shopId)}${date} 叫號統計*\n`;
+  text += `🕚 開始叫號：${formatTaipeiTime(summary.openedAt)}\n`;
+  text += `🎫 號碼：${summary.firstNumber} → ${
+    summary.lastNumber
+  }（最後更新 ${formatTaipeiTime(summary.lastAt)}）\n`;
+  if (summary.peakRate > 0) {
+    text += `🔥 最快：${formatTaipeiTime(
+      summary.peakAt
+    )} 起每分鐘 ${summary.peakRate.toFixed(1)} 號\n`;
+  }
+  if (summary.minutesPerNumber !== null) {
+    text += `⏱️ 平均每號 ${summary.minutesPerNumber.toFixed(1)} 分鐘\n`;
+  }
+  if (summary.sparkline) {
+    text += `\n\`${summary.sparkline}\`\n${formatTaipeiTime(
+      summary.openedAt
+    )} ～ ${formatTaipeiTime(summary.lastAt)}`;
+  }
+
+  await safeReply(ctx, text, {
+    parse_mode: "Markdown",
+    reply_to_message_id: ctx.message.message_id,
+  });
+});
+
 async function checkSubscriptions() {
+  // Always poll every shop so the number history keeps growing even with no
+  // subscribers. Failures back off inside the poller.
+  const statuses = new Map<string, QueueStatus>();
+  for (const source of listQueueSources()) {
+    statuses.set(source.id, await pollQueue(source.id));
+  }
+
   const subscriptions: Subscription[] =
     (getAllSubscriptions() as Subscription[] | undefined) ?? [];
   if (subscriptions.length === 0) {
     return;
   }
 
-  const currentNumber = await getCurrentNumber();
-  if (currentNumber === null) {
-    console.error("checkSubscriptions: Failed to get current number.");
-    return;
-  }
-
-  const remainingSubscriptions = [];
-  const fiveHours = 5 * 60 * 60 * 1000;
+  const finishedSubscriptions: Subscription[] = [];
+  const now = Date.now();
 
   for (const sub of subscriptions) {
-    if (currentNumber >= sub.target_number) {
+    const shopId = getSubscriptionShop(sub);
+    const status = statuses.get(shopId);
+    const user = { id: sub.user_id, first_name: sub.first_name };
+
+    const closed = status?.health === "closed";
+    if (isSubscriptionDayOver(sub, getQueueSource(shopId), closed, now)) {
+      logActivity("subscription_day_over", { sub });
+      const { text, entities } = textWithMention(
+        "🌙 ",
+        user,
+        ` ，${shopLabel(shopId)}今天打烊了，你的 ${
+          sub.target_number
+        } 號沒叫到，偶就幫你取消了。明天號碼會重來，要等再訂一次，醬子。`
+      );
+      safeSendMessage(bot, sub.chat_id, text, {
+        entities,
+        reply_to_message_id: sub.message_id,
+      });
+      finishedSubscriptions.push(sub);
+      continue;
+    }
+    // The number is not moving while the shop is closed, e.g. before it
+    // opens; hold the expiry clock instead of letting the subscription run out
+    if (closed) {
+      pauseSubscription(sub);
+      continue;
+    }
+    if (sub.paused_at !== undefined) resumeSubscription(sub);
+    const currentNumber = status?.number ?? null;
+    const age = getSubscriptionAge(sub, now);
+    const lifetime = getSubscriptionLifetime(sub);
+    // Expiry notices can wait until the user's quiet hours are over
+    const quiet = isQuietTime(sub.user_id, now);
+
+    if (currentNumber !== null && currentNumber >= sub.target_number) {
       logActivity("subscription_triggered", { sub });
-      safeSendMessage(
-        bot,
-        sub.chat_id,
-        `喂～ 👑 @${sub.first_name} ，你訂的 ${sub.target_number} 號到了，怕的是他。還不快去！`,
-        {
-          reply_to_message_id: sub.message_id,
-        }
+      const { text, entities } = textWithMention(
+        "喂～ 👑 ",
+        user,
+        ` ，你訂的 ${shopLabel(shopId)}${
+          sub.target_number
+        } 號到了，怕的是他。還不快去！`
       );
-    } else if (Date.now() - sub.created_at > fiveHours) {
+      safeSendMessage(bot, sub.chat_id, text, {
+        entities,
+        reply_to_message_id: sub.message_id,
+      });
+      finishedSubscriptions.push(sub);
+    } else if (
+      !quiet &&
+      age > lifetime &&
+      sub.warned_at !== undefined &&
+      now - sub.warned_at >= EXPIRY_WARNING_MS
+    ) {
+      // Only expire after the warning had its full time to be answered
       logActivity("subscription_expired", { sub });
-      safeSendMessage(
-        bot,
-        sub.chat_id,
-        `欸 👋 @${sub.first_name} ，你的 ${sub.target_number} 號等太久了，超過五小時偶就幫你取消了，很遜欸。881。`,
-        {
-          reply_to_message_id: sub.message_id,
-        }
+      const { text, entities } = textWithMention(
+        "欸 👋 ",
+        user,
+        ` ，你的 ${shopLabel(shopId)}${
+          sub.target_number
+        } 號等太久了，超過 ${Math.round(
+          lifetime / (60 * 60 * 1000)
+        )} 小時偶就幫你取消了，很遜欸。881。`
       );
-    } else {
-      remainingSubscriptions.push(sub);
+      safeSendMessage(bot, sub.chat_id, text, {
+        entities,
+        reply_to_message_id: sub.message_id,
+      });
+      finishedSubscriptions.push(sub);
+    } else if (
+      !quiet &&
+      age > lifetime - EXPIRY_WARNING_MS &&
+      sub.warned_at === undefined
+    ) {
+      logActivity("subscription_expiring", { sub });
+      const { text, entities } = textWithMention(
+        "⏳ ",
+        user,
+        ` ，你的 ${shopLabel(shopId)}${
+          sub.target_number
+        } 號再 15 分鐘就要取消了，還要等的話按下面延長，醬子。`
+      );
+      safeSendMessage(bot, sub.chat_id, text, {
+        entities,
+        reply_to_message_id: sub.message_id,
+        reply_markup: { inline_keyboard: [[extendButton(sub)]] },
+      });
+      markSubscriptionWarned(sub, now);
+    } else if (
+      currentNumber !== null &&
+      sub.lead &&
+      currentNumber >= sub.target_number - sub.lead &&
+      !sub.notified_stages?.includes("near")
+    ) {
+      logActivity("subscription_near", { sub, currentNumber });
+      const { text, entities } = textWithMention(
+        "👀 ",
+        user,
+        ` ，${shopLabel(shopId)}現在叫到 ${currentNumber} 號，離你的 ${
+          sub.target_number
+        } 號只剩 ${sub.target_number - currentNumber} 號，該出發了，怕的是他。`
+      );
+      safeSendMessage(bot, sub.chat_id, text, {
+        entities,
+        reply_to_message_id: sub.message_id,
+      });
+      markSubscriptionStage(sub, "near");
     }
   }
 
-  // Update DB with remaining subscriptions
-  saveSubscriptions(remainingSubscriptions as Subscription[]);
+  // Remove only the subscriptions handled above, so ones added while we were
+  // fetching the number are kept
+  for (const sub of finishedSubscriptions) {
+    removeSubscription(
+      sub.chat_id,
+      sub.user_id,
+      sub.target_number,
+      getSubscriptionShop(sub)
+    );
+  }
 }
 
 setInterval(checkSubscriptions, 60 * 1000);
+setInterval(() => refreshBoards(bot), 60 * 1000);
+setInterval(() => closeDuePolls(bot), 30 * 1000);
+// Also once at boot, so a bot restarted more often than that still prunes;
+// pruneOldPolls logs its own errors
+pruneOldPolls();
+setInterval(pruneOldPolls, 6 * 60 * 60 * 1000);
 
 // ----------------- Register external command modules -----------------
 registerVoteCommands(bot);
+registerSubscriptionCommands(bot);
+registerBoardCommands(bot);
+registerTicketCommands(bot);
+registerPersonaCommands(bot);
 // --------------------------------------------------------------------
 
 // Vote/poll related handlers moved to commands/vote.ts
@@ -672,6 +1065,27 @@ async function summarizeMessages(msgs: { role: string; content: any }[]) {
 
 // Unified AI tools generator bound to a specific ctx
 function getAISTools(ctx: Context) {
+  const shopSchema = z
+    .string()
+    .optional()
+    .describe(
+      `Shop id (${listQueueSources()
+        .map((src) => `${src.id}: ${src.name}`)
+        .join(", ")}). Omit to use the chat's default shop.`
+    );
+  // Unknown ids resolve to undefined so the tool can report them
+  const resolveShop = (shop?: string) =>
+    shop === undefined
+      ? getChatShop(ctx.chat.id)
+      : isKnownShop(shop)
+      ? shop
+      : undefined;
+  const unknownShop = () => ({
+    done: false,
+    reason: "unknown_shop",
+    shops: listQueueSources().map((src) => src.id),
+  });
+
   return {
     tarot: {
       description: "提供塔羅牌占卜，請使用者提供問題，並提供三張牌的結果",
@@ -691,7 +1105,7 @@ function getAISTools(ctx: Context) {
           messages: [
             {
               role: "system",
-              content: systemPromptTarot,
+              content: getPersona(TAROT_PERSONA)?.prompt ?? "",
             },
             {
               role: "assistant",
@@ -720,11 +1134,101 @@ function getAISTools(ctx: Context) {
       },
     },
     get_current_number: {
-      description: "Get the current queue number from the ticketing system",
-      inputSchema: z.object({}),
-      execute: async () => {
-        const num = await getCurrentNumber();
-        return { current_number: num };
+      description:
+        "Get the current queue number from the ticketing system. health is ok, degraded (source unreachable, number may be outdated), stale (number not updated for a while) or closed (shop not calling numbers).",
+      inputSchema: z.object({
+        shop: shopSchema,
+      }),
+      execute: async ({ shop }: { shop?: string }) => {
+        const shopId = resolveShop(shop);
+        if (!shopId) return unknownShop();
+        const status = await pollQueue(shopId);
+        return {
+          shop: shopId,
+          current_number: status?.number ?? null,
+          health: status?.health,
+          updated_at: status?.updatedAt
+            ? formatTaipeiTime(status.updatedAt)
+            : null,
+        };
+      },
+    },
+    get_queue_eta: {
+      description:
+        "Estimate how long until a queue number is called, based on the recent calling rate. Without target_number, estimates the user's subscribed numbers.",
+      inputSchema: z.object({
+        target_number: z
+          .number()
+          .int()
+          .optional()
+          .describe("Queue number to estimate"),
+        shop: shopSchema,
+      }),
+      execute: async ({
+        target_number,
+        shop,
+      }: {
+        target_number?: number;
+        shop?: string;
+      }) => {
+        const shopId = resolveShop(shop);
+        if (!shopId) return unknownShop();
+        const current = await getCurrentNumber(shopId);
+        if (current === null) return { shop: shopId, current_number: null };
+        const rate = getCallingRate(shopId);
+        const targets =
+          target_number !== undefined
+            ? [target_number]
+            : findSubscriptions(ctx.chat.id, ctx.from.id, shopId).map(
+                (s) => s.target_number
+              );
+        return {
+          shop: shopId,
+          current_number: current,
+          numbers_per_minute: rate === null ? null : Number(rate.toFixed(2)),
+          estimates: targets.map((t) => ({
+            target_number: t,
+            eta_minutes: estimateWaitMinutes(shopId, t, current),
+          })),
+        };
+      },
+    },
+    get_lunch_stats: {
+      description:
+        "Get this chat's lunch poll statistics: number of polls, average headcount, most popular item, and each member's attendance rate and longest attendance streak. Good for teasing people who keep skipping ramen.",
+      inputSchema: z.object({
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(365)
+          .optional()
+          .describe("Look back this many days; omit for the last 30 days"),
+        all_time: z.boolean().optional().describe("Use every poll ever"),
+      }),
+      execute: async ({
+        days,
+        all_time,
+      }: {
+        days?: number;
+        all_time?: boolean;
+      }) => {
+        const since = all_time
+          ? null
+          : Date.now() - (days ?? 30) * 24 * 60 * 60 * 1000;
+        const stats = summarizeLunches(ctx.chat.id, since);
+        if (!stats) return { polls: 0 };
+        return {
+          polls: stats.polls,
+          average_headcount: Number(stats.averageHeadcount.toFixed(1)),
+          top_item: stats.topItem,
+          members: stats.members.map((m) => ({
+            name: m.name,
+            attended: m.attended,
+            attendance_rate: Number(m.rate.toFixed(2)),
+            longest_streak: m.longestStreak,
+          })),
+        };
       },
     },
     create_vote: {
@@ -732,7 +1236,7 @@ function getAISTools(ctx: Context) {
         "Create a standard text-based poll in the chat with custom options",
       inputSchema: z.object({
         title: z.string(),
-        options: z.array(z.string()).min(2).max(10),
+        options: z.array(z.string().max(100)).min(2).max(10),
       }),
       execute: async ({
         title,
@@ -741,18 +1245,27 @@ function getAISTools(ctx: Context) {
         title: string;
         options: string[];
       }) => {
-        const pollOptions = options.map((t) => ({ text: t }));
-        await ctx.api.sendPoll(ctx.chat.id, title, pollOptions, {
-          is_anonymous: false,
-          allows_multiple_answers: true,
-          reply_to_message_id: ctx.message!.message_id,
+        const pollOptions = normalizePollOptions(options);
+        if (pollOptions.length < 2) {
+          return {
+            done: false,
+            reason: "too_few_options",
+            hint: "Give at least 2 different, non-empty options",
+          };
+        }
+        // Tracked like /vote so it gets a stop button and a result summary
+        await createPoll(ctx.api, ctx.chat, ctx.from.id, {
+          kind: "custom",
+          options: pollOptions,
+          title,
+          replyTo: ctx.message?.message_id,
         });
         return `[Poll sent to user]`;
       },
     },
     create_ramen_vote: {
       description:
-        "Create a ramen ordering poll with headcount tracking. Use this specifically when ramen is mentioned. Provides options for ramen orders with quantity and add-ons, includes a customizable opt-out option.",
+        "Create a ramen ordering poll with headcount tracking. Use this specifically when ramen is mentioned. Options come from a configured menu with quantities and add-ons, plus a customizable opt-out option.",
       inputSchema: z.object({
         title: z.string().describe("Title for the ramen poll"),
         bye_option: z
@@ -760,78 +1273,82 @@ function getAISTools(ctx: Context) {
           .describe(
             "提供拉麵投票中，不來的選項，像是「掰掰」、「蓋被被 😴」、「怕的是他 👑」，請隨便想一個就好"
           ),
+        menu: z
+          .enum(listMenus().map((m) => m.id) as [string, ...string[]])
+          .optional()
+          .describe(
+            `Menu id. Available: ${listMenus()
+              .map((m) => `${m.id} (${m.name})`)
+              .join(", ")}. Defaults to ${DEFAULT_MENU}.`
+          ),
+        close: z
+          .string()
+          .optional()
+          .describe(
+            "Auto-close deadline: a Taipei time like '11:30', or a duration like '20m' / '1h'. Omit to close by hand."
+          ),
       }),
       execute: async ({
         title,
         bye_option,
+        menu,
+        close,
       }: {
         title?: string;
         bye_option?: string;
+        menu?: string;
+        close?: string;
       }) => {
-        const voteTitle =
-          title && title.trim().length ? title : "限定拉麵，點餐！🍜";
-        const byeOptionsArr = ["偶不吃了 😠", "怕的是他 👑", "蓋被被 😴"];
-        const byeOpt =
-          bye_option && bye_option.trim().length
-            ? bye_option
-            : byeOptionsArr[Math.floor(Math.random() * byeOptionsArr.length)];
-
-        const voteOptions = [
-          "+1 | 🍜 單點",
-          "+2 | 🍜 單點",
-          "+1 | 🥚 加蛋",
-          "+2 | 🥚 加蛋",
-          "+1 | ✨ 超值",
-          "+2 | ✨ 超值",
-          byeOpt,
-        ];
-        const pollOptionsRamen = voteOptions.map((t) => ({ text: t }));
-        const data = await ctx.api.sendPoll(
-          ctx.chat.id,
-          voteTitle,
-          pollOptionsRamen,
-          {
-            allows_multiple_answers: true,
-            is_anonymous: false,
-            reply_to_message_id: ctx.message!.message_id,
-            reply_markup: {
-              inline_keyboard: [
-                [
-                  {
-                    text: "👥 0 人 | 🚫 結束投票",
-                    callback_data: `stopramenvote_${hash(
-                      ctx.message!.from.id
-                    )}`,
-                  },
-                ],
-              ],
-            },
-          }
-        );
-
-        updatePollData(data.poll.id, {
-          ...data.poll,
-          chat_id: ctx.chat.id,
-          message_id: data.message_id,
-          user_id: ctx.from.id,
-          chat_name: ctx.chat.title || ctx.chat.first_name,
-          chat_type: ctx.chat.type,
-          votes: {},
+        const closeAt = close ? parseDeadline(close) : null;
+        if (close && closeAt === null) {
+          return {
+            done: false,
+            reason: "invalid_close",
+            hint: "Use a Taipei time like '11:30' or a duration like '20m', within a day",
+          };
+        }
+        const menuId = menu ?? DEFAULT_MENU;
+        await createPoll(ctx.api, ctx.chat, ctx.from.id, {
+          kind: menuId === DEFAULT_MENU ? "ramen" : "menu",
+          menuId,
+          title,
+          byeOption: bye_option,
+          closeAt,
+          replyTo: ctx.message?.message_id,
         });
-
-        return `[Poll sent to user]`;
+        return closeAt
+          ? `[Poll sent to user, closes at ${formatTaipeiTime(closeAt)}]`
+          : `[Poll sent to user]`;
       },
     },
     subscribe_number: {
       description:
-        "Subscribe to a queue number notification. Only available in private chat.",
+        "Subscribe to a queue number notification. A user may hold several subscriptions for different numbers. Only available in private chat.",
       inputSchema: z.object({
         target_number: z
           .number()
           .int()
-          .describe("Target queue number to subscribe (1001-1200)"),
+          .describe("Target queue number to subscribe"),
+        shop: shopSchema,
+        lead: z
+          .number()
+          .int()
+          .min(0)
+          .max(MAX_LEAD)
+          .optional()
+          .describe(
+            "Send an early 'getting close' notice this many numbers before the target. Omit to use the chat default."
+          ),
       }),
-      execute: async ({ target_number }: { target_number: number }) => {
+      execute: async ({
+        target_number,
+        shop,
+        lead,
+      }: {
+        target_number: number;
+        shop?: string;
+        lead?: number;
+      }) => {
         if (ctx.chat.type !== "private") {
           await safeReply(
             ctx,
@@ -840,7 +1357,11 @@ function getAISTools(ctx: Context) {
           return { done: false } as const;
         }
 
-        const currentNumber = await getCurrentNumber();
+        const shopId = resolveShop(shop);
+        if (!shopId) return unknownShop();
+        const source = getQueueSource(shopId);
+
+        const currentNumber = await getCurrentNumber(shopId);
         if (currentNumber === null) {
           await safeReply(ctx, "挖哩咧 😵‍💫，偶拿不到號碼，很遜欸。");
           return { done: false } as const;
@@ -850,12 +1371,12 @@ function getAISTools(ctx: Context) {
         if (
           Number.isNaN(numTarget) ||
           !Number.isInteger(numTarget) ||
-          numTarget < 1001 ||
-          numTarget > 1200
+          numTarget < source.minNumber ||
+          numTarget > source.maxNumber
         ) {
           await safeReply(
             ctx,
-            "🗣️ 告老師喔！號碼亂打，要輸入 1001 到 1200 的數字啦，你很兩光欸。"
+            `🗣️ 告老師喔！號碼亂打，要輸入 ${source.minNumber} 到 ${source.maxNumber} 的數字啦，你很兩光欸。`
           );
           return { done: false } as const;
         }
@@ -869,29 +1390,29 @@ function getAISTools(ctx: Context) {
           return { done: false } as const;
         }
 
-        const subscriptions: Subscription[] =
-          (getAllSubscriptions() as Subscription[] | undefined) ?? [];
-        const existingSub = findSubscription(ctx.chat.id, ctx.from.id);
-        if (existingSub) {
-          await safeReply(
-            ctx,
-            `⚠️ 你已經訂閱 *${existingSub.target_number}* 號了，不要重複訂，很遜。`,
-            { parse_mode: "Markdown" }
-          );
-          return { done: false } as const;
-        }
-
-        addSubscription(
+        const added = addSubscription(
           ctx.chat.id,
           ctx.from.id,
           ctx.from.first_name,
           numTarget,
-          ctx.message!.message_id
+          ctx.message!.message_id,
+          {
+            lead: lead ?? getChatSettings(ctx.chat.id).default_lead ?? 0,
+            shop: shopId,
+          }
         );
+        if ("reason" in added) {
+          await safeReply(ctx, subscribeFailureText(added.reason, numTarget));
+          return { done: false, reason: added.reason } as const;
+        }
 
         await safeReply(
           ctx,
-          `👑 哼嗯，*${numTarget}* 號是吧？偶記下了，怕的是他。想取消再跟偶說醬子。`,
+          `👑 哼嗯，${shopLabel(
+            shopId
+          )}*${numTarget}* 號是吧？偶記下了，怕的是他。${leadText(
+            added.sub.lead
+          )}想取消再跟偶說醬子。\n${etaText(shopId, numTarget, currentNumber)}`,
           { parse_mode: "Markdown" }
         );
 
@@ -900,9 +1421,27 @@ function getAISTools(ctx: Context) {
     },
     unsubscribe_number: {
       description:
-        "Cancel current user's queue number subscription. Only available in private chat.",
-      inputSchema: z.object({}),
-      execute: async () => {
+        "Cancel one of the current user's queue number subscriptions. Only available in private chat.",
+      inputSchema: z.object({
+        target_number: z
+          .number()
+          .int()
+          .optional()
+          .describe(
+            "Subscribed number to cancel. May be omitted only when the user has exactly one subscription."
+          ),
+        shop: z
+          .string()
+          .optional()
+          .describe("Shop id of the subscription. Omit to match any shop."),
+      }),
+      execute: async ({
+        target_number,
+        shop,
+      }: {
+        target_number?: number;
+        shop?: string;
+      }) => {
         if (ctx.chat.type !== "private") {
           await safeReply(
             ctx,
@@ -911,23 +1450,49 @@ function getAISTools(ctx: Context) {
           return { done: false } as const;
         }
 
-        const subscriptions: Subscription[] =
-          (getAllSubscriptions() as Subscription[] | undefined) ?? [];
-        const subIndex = subscriptions.findIndex(
-          (s) => s.chat_id === ctx.chat.id && s.user_id === ctx.from.id
-        );
-
-        if (subIndex === -1) {
+        const subs = findSubscriptions(ctx.chat.id, ctx.from.id, shop);
+        if (subs.length === 0) {
           await safeReply(ctx, "🗣️ 你又沒訂閱，是在取消什麼，告老師喔！");
           return { done: false } as const;
         }
+        const subscribed = subs.map((s) => ({
+          shop: getSubscriptionShop(s),
+          target_number: s.target_number,
+        }));
+
+        const matches =
+          target_number === undefined
+            ? subs
+            : subs.filter((s) => s.target_number === target_number);
+        if (matches.length > 1) {
+          // Let the model ask which one instead of guessing
+          return {
+            done: false,
+            reason: "ambiguous",
+            subscribed,
+          } as const;
+        }
+        if (matches.length === 0) {
+          await safeReply(
+            ctx,
+            `🗣️ 你又沒訂閱 *${target_number}* 號，是在取消什麼，告老師喔！`,
+            { parse_mode: "Markdown" }
+          );
+          return { done: false, subscribed } as const;
+        }
 
-        const sub = subscriptions[subIndex];
-        removeSubscription(ctx.chat.id, ctx.from.id);
+        const sub = removeSubscription(
+          ctx.chat.id,
+          ctx.from.id,
+          matches[0].target_number,
+          getSubscriptionShop(matches[0])
+        );
 
         await safeReply(
           ctx,
-          `🚫 哼嗯，偶幫你取消 *${sub.target_number}* 號的訂閱了。醬子。`,
+          `🚫 哼嗯，偶幫你取消 ${shopLabel(getSubscriptionShop(sub))}*${
+            sub.target_number
+          }* 號的訂閱了。醬子。`,
           { parse_mode: "Markdown" }
         );
         return `Unsubscription message sent to user`;
@@ -1048,7 +1613,9 @@ function getAISTools(ctx: Context) {
       }),
       execute: async ({ query }: { query?: string }) => {
         // 安全措施：只能搜尋自己的記憶
-        const memories = searchMemories(ctx.chat.id);
+        const memories = await searchMemories(ctx.chat.id, query, {
+          userId: ctx.from?.id,
+        });
 
         if (memories.length === 0) {
           return query
@@ -1140,6 +1707,22 @@ function summarizeToolUsage(responseMessages: any[]): string | null {
 
 // ----------------- Memory Management Functions -----------------
 
+// How many memories go into the system prompt per message
+const MEMORY_CONTEXT_SIZE = 5;
+// Pinned memories always go in on top, so a chat may only pin this many
+const MAX_PINNED_MEMORIES = 5;
+
+// Keyword ranking by default; set EMBEDDING_MODEL to rank by embeddings
+const memoryRanker: MemoryRanker = process.env.EMBEDDING_MODEL
+  ? new EmbeddingRanker(async (texts) => {
+      const { embeddings } = await embedMany({
+        model: gateway.textEmbeddingModel(process.env.EMBEDDING_MODEL!),
+        values: texts,
+      });
+      return embeddings;
+    })
+  : new Bm25Ranker();
+
 function generateMemoryId(): string {
   return `mem-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -1164,27 +1747,52 @@ function addMemory(
     chatId,
   };
 
-  // 限制記憶最多一百條，超過時移除最舊的
+  // 限制記憶最多一百條，超過時移除最舊的（釘選的不動）
   history.memories.push(memory);
   if (history.memories.length > 100) {
     history.memories.sort(
       (a, b) =>
         new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
-    history.memories = history.memories.slice(-100); // 保留最新的100條
+    while (history.memories.length > 100) {
+      const index = history.memories.findIndex((m) => !m.pinned);
+      if (index === -1) break;
+      history.memories.splice(index, 1);
+    }
   }
 
   persistChatHistories();
   return memory;
 }
 
-function searchMemories(chatId: number): Memory[] {
+/**
+ * 搜尋聊天室的記憶：有關鍵字就依相關度排序，沒有就從新到舊。
+ * 指定 userId 只會找那個人的記憶。
+ */
+async function searchMemories(
+  chatId: number,
+  query?: string,
+  { userId, limit }: { userId?: number; limit?: number } = {}
+): Promise<Memory[]> {
   const history = chatHistories.get(chatId);
   if (!history) {
     return [];
   }
 
-  return history.memories;
+  const memories = history.memories.filter(
+    (m) => userId === undefined || m.userId === userId
+  );
+  if (!query?.trim()) {
+    return memories
+      .slice()
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      )
+      .slice(0, limit);
+  }
+  const ranked = await memoryRanker.rank(query, memories);
+  return ranked.map((r) => r.memory).slice(0, limit);
 }
 
 function deleteMemory(chatId: number, memoryId: string): boolean {
@@ -1203,11 +1811,316 @@ function deleteMemory(chatId: number, memoryId: string): boolean {
   return true;
 }
 
-// Core handler shared by both text and sticker messages
+function updateMemory(
+  chatId: number,
+  memoryId: string,
+  patch: Partial<Pick<Memory, "content" | "pinned">>
+): Memory | undefined {
+  const memory = chatHistories
+    .get(chatId)
+    ?.memories.find((m) => m.id === memoryId);
+  if (!memory) {
+    return undefined;
+  }
+
+  Object.assign(memory, patch);
+  persistChatHistories();
+  return memory;
+}
+
+// ----------------- /memories -----------------
+
+const MEMORIES_PAGE_SIZE = 5;
+// Edit prompts waiting for a reply, keyed by `${chatId}:${promptMessageId}`
+const MEMORY_EDIT_TTL_MS = 10 * 60 * 1000;
+const pendingMemoryEdits = new Map<
+  string,
+  { memoryId: string; userId: number; expiresAt: number }
+>();
+
+// "all" lists everyone's memories in the chat, otherwise one user's
+type MemoryScope = number | "all";
+
+function listScopedMemories(chatId: number, scope: MemoryScope): Memory[] {
+  const memories = chatHistories.get(chatId)?.memories ?? [];
+  return memories
+    .filter((m) => scope === "all" || m.userId === scope)
+    .sort(
+      (a, b) =>
+        Number(!!b.pinned) - Number(!!a.pinned) ||
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+}
+
+function buildMemoriesPage(chatId: number, scope: MemoryScope, page: number) {
+  const memories = listScopedMemories(chatId, scope);
+  const pages = Math.max(1, Math.ceil(memories.length / MEMORIES_PAGE_SIZE));
+  page = Math.min(Math.max(page, 0), pages - 1);
+  const shown = memories.slice(
+    page * MEMORIES_PAGE_SIZE,
+    (page + 1) * MEMORIES_PAGE_SIZE
+  );
+  const owner = scope === "all" ? "這個聊天室" : "你";
+
+  if (memories.length === 0) {
+    return {
+      text: `🤔 偶還沒有${owner}的任何記憶欸。跟偶說「記住…」偶就會記下來。`,
+      inline_keyboard: [],
+    };
+  }
+
+  let text = `🧠 ${owner}的記憶（第 ${page + 1}/${pages} 頁，共 ${
+    memories.length
+  } 條）\n\n`;
+  shown.forEach((memory, i) => {
+    const date = new Date(memory.createdAt).toLocaleDateString();
+    text += `${page * MEMORIES_PAGE_SIZE + i + 1}. ${
+      memory.pinned ? "📌 " : ""
+    }${memory.content}\n   📅 ${date}`;
+    if (scope === "all" && memory.userName) text += ` | 👤 ${memory.userName}`;
+    text += "\n\n";
+  });
+
+  const data = (action: string, id = "") =>
+    `mem${action}_${scope}_${page}_${id}`;
+  const inline_keyboard = shown.map((memory, i) => {
+    const n = page * MEMORIES_PAGE_SIZE + i + 1;
+    return [
+      {
+        text: `${memory.pinned ? "📍 取消" : "📌"} ${n}`,
+        callback_data: data("pin", memory.id),
+      },
+      { text: `✏️ ${n}`, callback_data: data("edit", memory.id) },
+      { text: `🗑️ ${n}`, callback_data: data("del", memory.id) },
+    ];
+  });
+  if (pages > 1) {
+    inline_keyboard.push([
+      {
+        text: "◀️",
+        callback_data: `mempage_${scope}_${(page - 1 + pages) % pages}_`,
+      },
+      {
+        text: "▶️",
+        callback_data: `mempage_${scope}_${(page + 1) % pages}_`,
+      },
+    ]);
+  }
+  return { text, inline_keyboard };
+}
+
+bot.command("memories", async (ctx) => {
+  const parsed = await parseCommandArgs(ctx, "用法：`/memories [all]`");
+  if (!parsed) return;
+  const arg = parsed.args[0];
+  if (arg !== undefined && arg !== "all") {
+    return safeReply(
+      ctx,
+      "🗣️ 告老師喔！只能打 `/memories` 或 `/memories all`，你很兩光欸。",
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  }
+  if (arg === "all" && !(await isChatAdmin(ctx.api, ctx.chat, ctx.from.id))) {
+    return ctx.reply("🗣️ 告老師喔，只有群組管理員能看大家的記憶，你很奇欸。", {
+      reply_to_message_id: ctx.message.message_id,
+    });
+  }
+
+  const page = buildMemoriesPage(
+    ctx.chat.id,
+    arg === "all" ? "all" : ctx.from.id,
+    0
+  );
+  await ctx.reply(page.text, {
+    reply_to_message_id: ctx.message.message_id,
+    reply_markup: { inline_keyboard: page.inline_keyboard },
+  });
+});
+
+bot.callbackQuery(
+  /mem(page|pin|edit|del)_(all|\d+)_(\d+)_(.*)/,
+  async (ctx) => {
+    const [, action, scopeArg, pageArg, memoryId] = ctx.match;
+    const from = ctx.update.callback_query.from;
+    const message = ctx.update.callback_query.message;
+    const chatId = message.chat.id;
+    const scope: MemoryScope = scopeArg === "all" ? "all" : Number(scopeArg);
+
+    // Owners manage their own list; the "all" list is for chat admins
+    const allowed =
+      scope === "all"
+        ? await isChatAdmin(ctx.api, message.chat, from.id)
+        : scope === from.id;
+    if (!allowed) {
+      return ctx.answerCallbackQuery("🗣️ 告老師喔，這不是你的記憶，你很奇欸。");
+    }
+
+    if (action !== "page") {
+      const memory = listScopedMemories(chatId, scope).find(
+        (m) => m.id === memoryId
+      );
+      if (!memory) {
+        return ctx.answerCallbackQuery("🤔 這條記憶已經不見了。");
+      }
+      if (action === "pin") {
+        const pinnedCount = (chatHistories.get(chatId)?.memories ?? []).filter(
+          (m) => m.pinned
+        ).length;
+        if (!memory.pinned && pinnedCount >= MAX_PINNED_MEMORIES) {
+          return ctx.answerCallbackQuery(
+            `📌 這裡最多釘 ${MAX_PINNED_MEMORIES} 條，先取消別的啦。`
+          );
+        }
+        updateMemory(chatId, memory.id, { pinned: !memory.pinned });
+        await ctx.answerCallbackQuery(
+          memory.pinned ? "📌 釘好了" : "📍 取消釘選"
+        );
+      } else if (action === "del") {
+        deleteMemory(chatId, memory.id);
+        await ctx.answerCallbackQuery("🗑️ 忘掉了");
+      } else {
+        await ctx.answerCallbackQuery();
+        const prompt = await ctx.api.sendMessage(
+          chatId,
+          `✏️ 回覆這則訊息，跟偶說「${memory.content}」要改成什麼。`,
+          {
+            reply_to_message_id: message.message_id,
+            reply_markup: { force_reply: true },
+          }
+        );
+        // Prompts nobody answered would otherwise stay forever
+        const now = Date.now();
+        for (const [key, edit] of pendingMemoryEdits) {
+          if (edit.expiresAt <= now) pendingMemoryEdits.delete(key);
+        }
+        pendingMemoryEdits.set(`${chatId}:${prompt.message_id}`, {
+          memoryId: memory.id,
+          userId: from.id,
+          expiresAt: now + MEMORY_EDIT_TTL_MS,
+        });
+        return;
+      }
+    } else {
+      await ctx.answerCallbackQuery();
+    }
+
+    const page = buildMemoriesPage(chatId, scope, Number(pageArg));
+    try {
+      await ctx.editMessageText(page.text, {
+        reply_markup: { inline_keyboard: page.inline_keyboard },
+      });
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to refresh /memories message:", e);
+      }
+    }
+  }
+);
+
+/**
+ * Apply a reply to a memory edit prompt. Return true when the message was
+ * one, so it does not go on to the LLM.
+ */
+async function handleMemoryEditReply(ctx: Context): Promise<boolean> {
+  const replyTo = ctx.message?.reply_to_message;
+  if (!replyTo) return false;
+  const key = `${ctx.chat.id}:${replyTo.message_id}`;
+  const pending = pendingMemoryEdits.get(key);
+  if (!pending || pending.userId !== ctx.from?.id) return false;
+  pendingMemoryEdits.delete(key);
+
+  if (pending.expiresAt < Date.now()) {
+    await safeReply(ctx, "⌛ 太久了啦，再按一次 ✏️ 吧，醬子。", {
+      reply_to_message_id: ctx.message.message_id,
+    });
+    return true;
+  }
+  const content = ctx.message.text.trim();
+  const memory = content
+    ? updateMemory(ctx.chat.id, pending.memoryId, { content })
+    : undefined;
+  await safeReply(
+    ctx,
+    memory ? `✅ 改好了：${memory.content}` : "🤔 這條記憶已經不見了。",
+    { reply_to_message_id: ctx.message.message_id }
+  );
+  return true;
+}
+
+// Telegram rate-limits edits, so a streaming reply is edited at most this often
+const STREAM_EDIT_INTERVAL_MS = 1500;
+
+/**
+ * Progressively edit a placeholder reply while the LLM streams. Partial text
+ * is sent without Markdown since it is often unbalanced mid-stream; only the
+ * final text gets Markdown, with the usual plain-text fallback.
+ */
+function createReplyStreamer(chatId: number, messageId: number) {
+  let shown = "";
+  let lastEdit = 0;
+  return {
+    async update(draft: string) {
+      const text = draft.trim();
+      if (!text || text === shown) return;
+      if (Date.now() - lastEdit < STREAM_EDIT_INTERVAL_MS) return;
+      lastEdit = Date.now();
+      shown = text;
+      try {
+        await bot.api.editMessageText(chatId, messageId, text);
+      } catch (e) {
+        console.error("Failed to edit streaming reply:", e.message);
+      }
+    },
+    async finish(text: string) {
+      try {
+        await safeEditMessageText(bot, chatId, messageId, text, {
+          parse_mode: "Markdown",
+        });
+      } catch (e) {
+        if (!e.message?.includes("message is not modified")) throw e;
+      }
+    },
+    async discard() {
+      await bot.api.deleteMessage(chatId, messageId).catch(() => {});
+    },
+  };
+}
+
+// Core handler shared by text, photo and sticker messages
 async function processLLMMessage(ctx: Context, userContent: string) {
   const botName = await getBotUsername(ctx);
   if (!shouldRespond(ctx, botName)) return;
 
+  // The replied-to photo only counts when the message asks the bot about
+  // it: in private chats any reply does, in groups only a mention, and a
+  // sticker never does
+  const mentioned = new RegExp(`@${botName}\\b`, "i").test(
+    ctx.message?.text || ctx.message?.caption || ""
+  );
+  const repliedPhoto: PhotoSize[] | undefined =
+    !ctx.message?.sticker && (ctx.chat.type === "private" || mentioned)
+      ? (ctx.message as any)?.reply_to_message?.photo
+      : undefined;
+  const photoSets = [ctx.message?.photo, repliedPhoto].filter(
+    Boolean
+  ) as PhotoSize[][];
+  const imageCount = chargeablePhotoCount(
+    ctx.chat.id,
+    ctx.message?.photo,
+    repliedPhoto
+  );
+
+  // Image quota first, so a rejected photo does not use up a message
+  if (imageCount > 0 && !hasImageQuota(ctx, imageCount)) {
+    await safeReply(ctx, "👀 今天看太多圖了，偶眼睛好酸，明天再傳啦。", {
+      reply_to_message_id: ctx.message!.message_id,
+    });
+    return;
+  }
+
   // ----- Daily quota enforcement -----
   if (!checkAndIncrementQuota(ctx)) {
     const limitText = getLimitMessage();
@@ -1224,8 +2137,29 @@ async function processLLMMessage(ctx: Context, userContent: string) {
   }
   // -----------------------------------
 
+  incrementImageQuota(ctx, imageCount);
+  if (repliedPhoto) markReplyPhotoCharged(ctx.chat.id, repliedPhoto);
+
   await ctx.api.sendChatAction(ctx.chat.id, "typing");
 
+  // Largest size that fits the limit; only sent to the model for this turn,
+  // history keeps the "[圖片]" placeholder
+  const imageParts: { type: "image"; image: Uint8Array; mediaType: string }[] =
+    [];
+  for (const sizes of photoSets) {
+    const photo = [...sizes]
+      .reverse()
+      .find((p) => (p.file_size ?? 0) <= MAX_IMAGE_BYTES);
+    if (!photo) continue;
+    const image = await downloadTelegramFile(
+      ctx.api,
+      photo.file_id,
+      MAX_IMAGE_BYTES
+    );
+    if (image)
+      imageParts.push({ type: "image", image, mediaType: "image/jpeg" });
+  }
+
   const chatId = ctx.chat.id;
   let history = chatHistories.get(chatId);
   if (!history) {
@@ -1238,6 +2172,10 @@ async function processLLMMessage(ctx: Context, userContent: string) {
   if (replyMsg) {
     let repliedContent: string | undefined;
     if (replyMsg.text) repliedContent = replyMsg.text;
+    else if (replyMsg.photo)
+      repliedContent = replyMsg.caption
+        ? `[圖片] ${replyMsg.caption}`
+        : "[圖片]";
     else if (replyMsg.caption) repliedContent = replyMsg.caption;
     else if (replyMsg.sticker)
       repliedContent = `[貼圖 ${replyMsg.sticker.emoji || ""}]`;
@@ -1256,12 +2194,13 @@ async function processLLMMessage(ctx: Context, userContent: string) {
     finalUserContent = `${senderName}：${finalUserContent}`;
   }
 
-  history.messages.push({
+  const userMessage = {
     role: "user",
     content: finalUserContent,
     id: `msg-${Date.now()}`,
     createdAt: new Date(),
-  });
+  };
+  history.messages.push(userMessage);
 
   if (history.messages.length > 20) {
     const toSummarize = history.messages.splice(
@@ -1275,21 +2214,43 @@ async function processLLMMessage(ctx: Context, userContent: string) {
     });
   }
 
-  // 獲取相關的記憶並添加到上下文（限制為聊天室內的記憶）
-  const recentMemories = searchMemories(chatId);
+  // 獲取跟這則訊息最相關的記憶並添加到上下文（只找發話者自己的記憶）
+  const relevantMemories = await searchMemories(chatId, userContent, {
+    userId: ctx.from?.id,
+    limit: MEMORY_CONTEXT_SIZE,
+  });
+  // 沒那麼多相關的，就補上發話者自己最近的記憶
+  const ownMemories = await searchMemories(chatId, undefined, {
+    userId: ctx.from?.id,
+  });
+  // 釘選的記憶是大家共用的，一定放進去，不佔名額；舊資料釘超過上限的只取最新的
+  const pinnedMemories = history.memories
+    .filter((m) => m.pinned)
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    .slice(0, MAX_PINNED_MEMORIES);
+  const contextMemories = [
+    ...pinnedMemories,
+    ...[...relevantMemories, ...ownMemories]
+      .filter((m, i, all) => !m.pinned && all.indexOf(m) === i)
+      .slice(0, MEMORY_CONTEXT_SIZE),
+  ];
   const memoryContext =
-    recentMemories.length > 0
-      ? `\n\n相關記憶：\n${recentMemories
-          .slice(0, 5)
+    contextMemories.length > 0
+      ? `\n\n相關記憶：\n${contextMemories
           .map((m) => `- ${m.content} (${m.userName || "Unknown"})`)
           .join("\n")}`
       : "";
 
+  const persona = getChatPersona(chatId);
+
   // 構建訊息陣列，包含系統訊息和歷史訊息
   const allMessages = [
     {
       role: "system",
-      content: systemPrompt + memoryContext,
+      content: persona.prompt + memoryContext,
     },
     ...history.messages.filter(
       (msg) => msg.role === "assistant" || msg.role === "user"
@@ -1301,32 +2262,49 @@ async function processLLMMessage(ctx: Context, userContent: string) {
   ];
 
   // 簡化訊息處理：移除所有工具調用相關訊息，只保留純文字對話
-  const messagesForModel = allMessages.filter((msg) => {
-    // 只保留 system、user、assistant 的純文字訊息
-    if (msg.role === "system" || msg.role === "user") {
-      return true;
-    }
-    if (msg.role === "assistant") {
-      // 如果 assistant 訊息有 tool_calls，跳過（避免 API 錯誤）
-      return !(msg as any).tool_calls;
-    }
-    // 跳過所有 tool 角色的訊息
-    return false;
-  });
+  const messagesForModel = allMessages
+    .map((msg) =>
+      msg === userMessage && imageParts.length > 0
+        ? {
+            role: "user",
+            content: [{ type: "text", text: msg.content }, ...imageParts],
+          }
+        : msg
+    )
+    .filter((msg) => {
+      // 只保留 system、user、assistant 的純文字訊息
+      if (msg.role === "system" || msg.role === "user") {
+        return true;
+      }
+      if (msg.role === "assistant") {
+        // 如果 assistant 訊息有 tool_calls，跳過（避免 API 錯誤）
+        return !(msg as any).tool_calls;
+      }
+      // 跳過所有 tool 角色的訊息
+      return false;
+    });
 
-  const tools = getAISTools(ctx);
+  const tools = filterPersonaTools(persona, getAISTools(ctx));
+  let streamer: ReturnType<typeof createReplyStreamer> | undefined;
 
   try {
     let text: string | undefined;
     let responseMessages: any[] = [];
 
+    // 先回一則訊息佔位，再邊生成邊編輯
+    const placeholder = await safeReply(ctx, "🤔 ...", {
+      reply_to_message_id: ctx.message!.message_id,
+    });
+    streamer = createReplyStreamer(ctx.chat.id, placeholder.message_id);
+
     try {
       // 使用 AI SDK 正確的工具調用處理方式
-      const result = await generateText({
+      const result = streamText({
         model: OPENWEBUI_MODEL,
         messages: messagesForModel,
         tools: tools as any,
         maxRetries: 5,
+        temperature: persona.temperature,
         stopWhen: stepCountIs(5), // 使用 stopWhen 替代 maxSteps
         // 禁用並行工具調用以避免 tool_call_id 錯誤
         toolChoice: "auto",
@@ -1337,7 +2315,21 @@ async function processLLMMessage(ctx: Context, userContent: string) {
         },
       });
 
-      text = result.text;
+      // Only the last step's text is the reply; earlier steps lead into tool
+      // calls, so each new step starts a fresh draft
+      let draft = "";
+      for await (const part of result.fullStream) {
+        if (part.type === "start-step") {
+          draft = "";
+        } else if (part.type === "text-delta") {
+          draft += part.text;
+          await streamer.update(draft);
+        } else if (part.type === "error") {
+          throw part.error;
+        }
+      }
+
+      text = await result.text;
       // 取得完整的 response 物件以獲取正確的訊息格式
       const response = await result.response;
       responseMessages = response.messages || [];
@@ -1347,6 +2339,7 @@ async function processLLMMessage(ctx: Context, userContent: string) {
       const randomSticker = getRandomSticker();
       if (randomSticker) {
         try {
+          await streamer.discard();
           await ctx.api.sendSticker(ctx.chat.id, randomSticker.id);
           return; // 成功發送貼圖後直接返回
         } catch (stickerError) {
@@ -1394,11 +2387,19 @@ async function processLLMMessage(ctx: Context, userContent: string) {
 
     persistChatHistories();
 
-    if (text && text.trim() !== "") {
+    // The reply is in the history already, so a failed edit is handled here
+    // instead of by the fallback below
+    try {
+      if (text && text.trim() !== "") {
+        await streamer.finish(text.trim());
+      } else {
+        await streamer.discard();
+      }
+    } catch (e) {
+      console.error("Failed to finish streaming reply", e);
       await safeReply(ctx, text.trim(), {
         reply_to_message_id: ctx.message!.message_id,
-        parse_mode: "Markdown",
-      });
+      }).catch((e2) => console.error("Failed to send LLM reply", e2));
     }
   } catch (e) {
     console.error("chat generate error", e);
@@ -1410,17 +2411,29 @@ async function processLLMMessage(ctx: Context, userContent: string) {
       createdAt: new Date(),
     });
     persistChatHistories();
-    await safeReply(ctx, fallback, {
-      reply_to_message_id: ctx.message!.message_id,
-    });
+    if (streamer) {
+      await streamer.finish(fallback).catch(() => {});
+    } else {
+      await safeReply(ctx, fallback, {
+        reply_to_message_id: ctx.message!.message_id,
+      });
+    }
   }
 }
 
 bot.on("message:text", async (ctx) => {
   if (ctx.message.text.startsWith("/")) return;
+  if (await handleMemoryEditReply(ctx)) return;
   await processLLMMessage(ctx, ctx.message.text);
 });
 
+// Handle photos via LLM; the caption is the text, the image goes to the model
+bot.on("message:photo", async (ctx) => {
+  const caption = ctx.message.caption;
+  if (caption?.startsWith("/")) return;
+  await processLLMMessage(ctx, caption ? `[圖片] ${caption}` : "[圖片]");
+});
+
 // Handle sticker messages via LLM (uses emoji as content)
 bot.on("message:sticker", async (ctx) => {
   const sticker = ctx.message.sticker;
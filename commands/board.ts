@@ -0,0 +1,197 @@
+import { Bot, GrammyError } from "grammy";
+import {
+  escapeMarkdown,
+  safeEditMessageText,
+  safeReply,
+} from "../utils/telegram.js";
+import { getCurrentNumber } from "../utils/number.js";
+import { getChatShop } from "../utils/chatSettings.js";
+import { getQueueSource, isKnownShop } from "../utils/queueSource.js";
+import {
+  getAll as getAllSubscriptions,
+  getSubscriptionShop,
+} from "../utils/subscription.js";
+import { estimateWaitMinutes, formatMinutes } from "../utils/numberHistory.js";
+import { formatTaipeiTime, getTodayDate, taipeiTimeOn } from "../utils/date.js";
+import {
+  Board,
+  getBoard,
+  getAllBoards,
+  saveBoard,
+  removeBoard,
+} from "../utils/board.js";
+import { rateText, shopLabel } from "./subscription.js";
+import { parseCommandArgs } from "../utils/args.js";
+import { isChatAdmin } from "../utils/admin.js";
+
+// Boards stop updating after this long even before closing time
+const BOARD_TIMEOUT_MS = 4 * 60 * 60 * 1000;
+
+function buildBoardText(board: Board, currentNumber: number | null): string {
+  const subs = getAllSubscriptions()
+    .filter(
+      (s) =>
+        s.chat_id === board.chat_id && getSubscriptionShop(s) === board.shop
+    )
+    .sort((a, b) => a.target_number - b.target_number);
+
+  let text = `📋 *${escapeMarkdown(shopLabel(board.shop))}叫號看板*\n`;
+  text += `🎫 現在號碼：*${currentNumber ?? "？"}*\n`;
+  const rate = rateText(board.shop);
+  if (rate) text += `⏱️ ${rate}\n`;
+
+  if (subs.length > 0) {
+    text += `\n👥 *等待中*\n`;
+    for (const sub of subs) {
+      const minutes =
+        currentNumber === null
+          ? null
+          : estimateWaitMinutes(board.shop, sub.target_number, currentNumber);
+      const eta = minutes ? `（約 ${formatMinutes(minutes)}）` : "";
+      const name = escapeMarkdown(sub.first_name);
+      text += `• ${name} ${sub.target_number}${eta}\n`;
+    }
+  } else {
+    text += `\n沒有人在等，想訂閱打 \`/number <你的號碼>\`。\n`;
+  }
+  text += `\n🕐 更新於 ${formatTaipeiTime(Date.now())}`;
+  return text;
+}
+
+async function closeBoard(bot: Bot, board: Board, reason: string) {
+  removeBoard(board.chat_id);
+  try {
+    await safeEditMessageText(
+      bot,
+      board.chat_id,
+      board.message_id,
+      `📋 看板收工囉，${reason}。要再開打 /board，886～`
+    );
+    if (board.pinned) {
+      await bot.api.unpinChatMessage(board.chat_id, board.message_id);
+    }
+  } catch (e) {
+    console.error("Failed to close board:", e);
+  }
+}
+
+/**
+ * Edit every active board whose content changed, closing expired ones.
+ */
+export async function refreshBoards(bot: Bot) {
+  const now = Date.now();
+  for (const board of getAllBoards()) {
+    if (now >= board.expires_at) {
+      await closeBoard(bot, board, "時間到了");
+      continue;
+    }
+
+    const currentNumber = await getCurrentNumber(board.shop);
+    const text = buildBoardText(board, currentNumber);
+    // Compare without the timestamp line so idle boards are not re-edited
+    const content = text.replace(/\n🕐 .*$/, "");
+    if (content === board.last_text) continue;
+
+    try {
+      await safeEditMessageText(bot, board.chat_id, board.message_id, text, {
+        parse_mode: "Markdown",
+      });
+      saveBoard({ ...board, last_text: content });
+    } catch (e) {
+      if (
+        e instanceof GrammyError &&
+        e.description.includes("message to edit not found")
+      ) {
+        removeBoard(board.chat_id);
+      } else if (!e.message.includes("message is not modified")) {
+        console.error("Failed to refresh board:", e);
+      }
+    }
+  }
+}
+
+/**
+ * Register the live queue board command.
+ */
+export function registerBoardCommands(bot: Bot) {
+  // ------------------ /board ------------------
+  bot.command("board", async (ctx) => {
+    const parsed = await parseCommandArgs(
+      ctx,
+      "用法：`/board [店] [pin]`，收掉打 `/board stop`。"
+    );
+    if (!parsed) return;
+    const args = parsed.args;
+
+    const existing = getBoard(ctx.chat.id);
+    if (args[0] === "stop") {
+      if (!existing) {
+        return ctx.reply("🤔 這裡沒有開看板啊，你很奇欸。", {
+          reply_to_message_id: ctx.message.message_id,
+        });
+      }
+      if (
+        existing.user_id !== ctx.from.id &&
+        !(await isChatAdmin(ctx.api, ctx.chat, ctx.from.id))
+      ) {
+        return ctx.reply(
+          "🗣️ 告老師喔，只有開看板的人或管理員能收掉，你很奇欸。",
+          { reply_to_message_id: ctx.message.message_id }
+        );
+      }
+      return closeBoard(bot, existing, "有人叫偶收掉");
+    }
+
+    const shopId = isKnownShop(args[0] ?? "")
+      ? args.shift()
+      : getChatShop(ctx.chat.id);
+    const pin = args.includes("pin");
+
+    // Closing time today, or the timeout, whichever comes first
+    const now = Date.now();
+    const closingAt = taipeiTimeOn(
+      getTodayDate(),
+      getQueueSource(shopId).closingTime
+    );
+    if (closingAt <= now) {
+      return ctx.reply(
+        `🌙 ${shopLabel(shopId)}今天已經打烊了，看板明天再開啦，醬子。`,
+        { reply_to_message_id: ctx.message.message_id }
+      );
+    }
+    const expiresAt = Math.min(now + BOARD_TIMEOUT_MS, closingAt);
+
+    // Only one board per chat – retire the old one first
+    if (existing) await closeBoard(bot, existing, "換新的看板了");
+
+    const board: Board = {
+      chat_id: ctx.chat.id,
+      message_id: 0,
+      shop: shopId,
+      user_id: ctx.from.id,
+      created_at: now,
+      expires_at: expiresAt,
+      pinned: false,
+    };
+    const currentNumber = await getCurrentNumber(shopId);
+    const text = buildBoardText(board, currentNumber);
+    const sent = await safeReply(ctx, text, { parse_mode: "Markdown" });
+    board.message_id = sent.message_id;
+    board.last_text = text.replace(/\n🕐 .*$/, "");
+
+    if (pin) {
+      try {
+        await ctx.api.pinChatMessage(ctx.chat.id, sent.message_id, {
+          disable_notification: true,
+        });
+        board.pinned = true;
+      } catch (e) {
+        console.error("Failed to pin board:", e);
+        await ctx.reply("😵‍💫 偶沒有權限釘選，找管理員給偶權限啦。", {
+          reply_to_message_id: sent.message_id,
+        });
+      }
+    }
+    saveBoard(board);
+  });
+}
@@ -0,0 +1,59 @@
+import { Bot } from "grammy";
+import { updateChatSettings } from "../utils/chatSettings.js";
+import { ADMIN_ONLY_TEXT, isChatAdmin } from "../utils/admin.js";
+import { getChatPersona, getPersona, listPersonas } from "../utils/persona.js";
+
+function personaKeyboard(currentId: string) {
+  return listPersonas().map((persona) => [
+    {
+      text: `${persona.id === currentId ? "👑 " : ""}${persona.name}`,
+      callback_data: `setpersona_${persona.id}`,
+    },
+  ]);
+}
+
+/**
+ * Register persona commands and callbacks on the provided bot instance.
+ */
+export function registerPersonaCommands(bot: Bot) {
+  // ------------------ /persona ------------------
+  bot.command("persona", async (ctx) => {
+    const current = getChatPersona(ctx.chat.id);
+    let text = `🎭 這裡現在是 *${current.name}* 在講話。\n\n`;
+    for (const persona of listPersonas()) {
+      const mark = persona.id === current.id ? "👑" : "•";
+      text += `${mark} *${persona.name}*${
+        persona.description ? `：${persona.description}` : ""
+      }\n`;
+    }
+    text += "\n按下面換人，醬子。";
+    await ctx.reply(text, {
+      parse_mode: "Markdown",
+      reply_to_message_id: ctx.message.message_id,
+      reply_markup: { inline_keyboard: personaKeyboard(current.id) },
+    });
+  });
+
+  bot.callbackQuery(/setpersona_([A-Za-z0-9_-]+)/, async (ctx) => {
+    const persona = getPersona(ctx.match[1]);
+    if (!persona) {
+      return ctx.answerCallbackQuery("🗣️ 偶不認識這個人，你很奇欸。");
+    }
+    const chat = ctx.update.callback_query.message.chat;
+    if (!(await isChatAdmin(ctx.api, chat, ctx.from.id))) {
+      return ctx.answerCallbackQuery(ADMIN_ONLY_TEXT);
+    }
+    updateChatSettings(chat.id, { persona: persona.id });
+    await ctx.answerCallbackQuery(`✅ 換成 ${persona.name} 了`);
+    try {
+      await ctx.editMessageText(
+        `🎭 好啦，這裡之後換 *${persona.name}* 講話，醬子。`,
+        { parse_mode: "Markdown" }
+      );
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to edit /persona message:", e);
+      }
+    }
+  });
+}
@@ -0,0 +1,538 @@
+import { Bot, Context } from "grammy";
+import { textWithMention } from "../utils/telegram.js";
+import { parseCommandArgs } from "../utils/args.js";
+import { ADMIN_ONLY_TEXT, isChatAdmin } from "../utils/admin.js";
+import { QueueStatus, getCurrentNumber } from "../utils/number.js";
+import {
+  Subscription,
+  MAX_SUBSCRIPTIONS_PER_USER,
+  MAX_LEAD,
+  MAX_LIFETIME_HOURS,
+  DEFAULT_LIFETIME_HOURS,
+  addSubscription,
+  extendSubscription,
+  findSubscription,
+  findSubscriptions,
+  findUserSubscriptions,
+  removeSubscription,
+  getSubscriptionShop,
+  parseLead,
+  parseLifetimeHours,
+} from "../utils/subscription.js";
+import {
+  getUserSettings,
+  updateUserSettings,
+  parseQuietHours,
+} from "../utils/userSettings.js";
+import {
+  getChatSettings,
+  getChatShop,
+  updateChatSettings,
+} from "../utils/chatSettings.js";
+import {
+  getQueueSource,
+  listQueueSources,
+  isKnownShop,
+} from "../utils/queueSource.js";
+import {
+  getCallingRate,
+  estimateWaitMinutes,
+  formatMinutes,
+} from "../utils/numberHistory.js";
+
+/**
+ * Persona text for a failed `addSubscription` call.
+ */
+export function subscribeFailureText(
+  reason: string,
+  targetNumber: number
+): string {
+  if (reason === "duplicate") {
+    return `⚠️ 你已經訂閱 ${targetNumber} 號了，不要重複訂，很遜。`;
+  }
+  if (reason === "too_many") {
+    return `🗣️ 你已經訂了 ${MAX_SUBSCRIPTIONS_PER_USER} 張號碼牌，貪心鬼，先打 /mysubs 取消幾張啦。`;
+  }
+  return "挖哩咧，偶訂閱失敗了，很遜欸。";
+}
+
+/**
+ * Join subscribed numbers for display, e.g. "1150、1163".
+ */
+export function formatTargetNumbers(subs: Subscription[]): string {
+  return subs.map((s) => s.target_number).join("、");
+}
+
+/**
+ * Shop name prefix for messages. Empty while only one shop is registered, so
+ * single-shop deployments read exactly as before.
+ */
+export function shopLabel(shopId: string): string {
+  if (listQueueSources().length <= 1) return "";
+  return `${getQueueSource(shopId)?.name ?? shopId} `;
+}
+
+/**
+ * Describe the early-warning distance, or nothing when it is off.
+ */
+export function leadText(lead?: number): string {
+  return lead ? `前 ${lead} 號會先提醒你。` : "";
+}
+
+/**
+ * Describe the recent calling rate, or nothing when unknown.
+ */
+export function rateText(shopId: string): string {
+  const rate = getCallingRate(shopId);
+  if (!rate) return "";
+  return rate >= 1
+    ? `最近每分鐘叫 ${rate.toFixed(1)} 號。`
+    : `最近大約 ${Math.round(1 / rate)} 分鐘叫一號。`;
+}
+
+/**
+ * Describe the estimated wait for a number, or nothing when unknown.
+ */
+export function etaText(
+  shopId: string,
+  targetNumber: number,
+  currentNumber: number
+): string {
+  const minutes = estimateWaitMinutes(shopId, targetNumber, currentNumber);
+  if (minutes === null) return "";
+  return `照現在的速度，*${targetNumber}* 號大概還要 ${formatMinutes(
+    minutes
+  )}。`;
+}
+
+/**
+ * Warn about unreliable queue data, or nothing when the source is healthy.
+ */
+export function healthText(status: QueueStatus): string {
+  switch (status.health) {
+    case "degraded":
+      return "⚠️ 偶最近連不太到叫號系統，號碼可能不是最新的。";
+    case "stale":
+      return `⚠️ 資料 ${formatMinutes(
+        (Date.now() - status.updatedAt) / 60000
+      )}沒更新了，號碼可能不準。`;
+    case "closed":
+      return "😴 店家現在好像沒在叫號，訂閱會先暫停，開始叫號再繼續算。";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Inline button that extends a subscription by an hour.
+ */
+export function extendButton(sub: Subscription): {
+  text: string;
+  callback_data: string;
+} {
+  return {
+    text: "⏳ 延長 1 小時",
+    callback_data: `extend_${sub.chat_id}_${getSubscriptionShop(sub)}_${
+      sub.target_number
+    }`,
+  };
+}
+
+/**
+ * List the subscriptions visible from a chat: everything the user holds when
+ * asked in private, only this group's subscriptions otherwise.
+ */
+function listSubscriptions(
+  chat: Context["chat"],
+  userId: number
+): Subscription[] {
+  return chat.type === "private"
+    ? findUserSubscriptions(userId)
+    : findSubscriptions(chat.id, userId);
+}
+
+function buildMySubsMessage(
+  subs: Subscription[],
+  userId: number
+): {
+  text: string;
+  inline_keyboard: { text: string; callback_data: string }[][];
+} {
+  if (subs.length === 0) {
+    return {
+      text: "🤔 你現在沒有訂閱任何號碼喔。想訂閱打 `/number <你的號碼>`，醬子。",
+      inline_keyboard: [],
+    };
+  }
+  let text = `🎫 *你的號碼牌*（${subs.length} 張）\n`;
+  for (const sub of subs) {
+    const where = sub.chat_id === userId ? "私訊" : "群組";
+    const near = sub.lead ? `，提前 ${sub.lead} 號提醒` : "";
+    text += `• ${shopLabel(getSubscriptionShop(sub))}*${
+      sub.target_number
+    }* 號（${where}${near}）\n`;
+  }
+  text += "\n按下面的按鈕可以取消，醬子。";
+  const inline_keyboard = subs.map((sub) => [
+    {
+      text: `🚫 取消 ${sub.target_number}`,
+      callback_data: `delsub_${sub.chat_id}_${getSubscriptionShop(sub)}_${
+        sub.target_number
+      }`,
+    },
+  ]);
+  return { text, inline_keyboard };
+}
+
+/**
+ * Register subscription management commands and callbacks.
+ */
+export function registerSubscriptionCommands(bot: Bot) {
+  // ------------------ /mysubs ------------------
+  bot.command("mysubs", async (ctx) => {
+    const subs = listSubscriptions(ctx.chat, ctx.from.id);
+    const { text, inline_keyboard } = buildMySubsMessage(subs, ctx.from.id);
+    await ctx.reply(text, {
+      parse_mode: "Markdown",
+      reply_to_message_id: ctx.message.message_id,
+      reply_markup: { inline_keyboard },
+    });
+  });
+
+  // ------------------ /numberlead ------------------
+  bot.command("numberlead", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, "用法：`/numberlead [號數]`");
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    if (arg === undefined) {
+      const current = getChatSettings(ctx.chat.id).default_lead ?? 0;
+      return ctx.reply(
+        current
+          ? `👑 這裡預設前 *${current}* 號先提醒，想改打 \`/numberlead <號數>\`，0 是關掉。`
+          : "👑 這裡預設沒有提前提醒，想開打 `/numberlead <號數>`，醬子。",
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    // Chat-wide default, so only admins may change it in groups
+    if (!(await isChatAdmin(ctx.api, ctx.chat, ctx.from.id))) {
+      return ctx.reply(ADMIN_ONLY_TEXT, {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+
+    const lead = parseLead(arg);
+    if (lead === null) {
+      return ctx.reply(
+        `🗣️ 告老師喔！要打 0 到 ${MAX_LEAD} 的數字啦，你很兩光欸。`,
+        { reply_to_message_id: ctx.message.message_id }
+      );
+    }
+    updateChatSettings(ctx.chat.id, { default_lead: lead });
+    await ctx.reply(
+      lead
+        ? `✅ 之後的訂閱預設前 *${lead}* 號就先提醒，很ㄅㄧㄤˋ吧。`
+        : "✅ 之後的訂閱不會提前提醒了，醬子。",
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  });
+
+  // ------------------ /numberlife ------------------
+  bot.command("numberlife", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, "用法：`/numberlife [小時]`");
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    if (arg === undefined) {
+      const current =
+        getChatSettings(ctx.chat.id).sub_lifetime_hours ??
+        DEFAULT_LIFETIME_HOURS;
+      return ctx.reply(
+        `👑 這裡的訂閱放 *${current}* 小時沒叫到就取消，想改打 \`/numberlife <小時>\`，醬子。`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    if (!(await isChatAdmin(ctx.api, ctx.chat, ctx.from.id))) {
+      return ctx.reply(ADMIN_ONLY_TEXT, {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+
+    const hours = parseLifetimeHours(arg);
+    if (hours === null) {
+      return ctx.reply(
+        `🗣️ 告老師喔！要打 1 到 ${MAX_LIFETIME_HOURS} 的小時數啦，你很兩光欸。`,
+        { reply_to_message_id: ctx.message.message_id }
+      );
+    }
+    updateChatSettings(ctx.chat.id, { sub_lifetime_hours: hours });
+    await ctx.reply(
+      `✅ 這裡的訂閱之後放 *${hours}* 小時才會取消，很ㄅㄧㄤˋ吧。`,
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  });
+
+  // ------------------ /extend ------------------
+  bot.command("extend", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, "用法：`/extend [號碼] [小時]`");
+    if (!parsed) return;
+    const [numberArg, hoursArg] = parsed.args;
+    const hours = hoursArg === undefined ? 1 : parseLifetimeHours(hoursArg);
+    if (hours === null) {
+      return ctx.reply(
+        `🗣️ 告老師喔！一次最多延長 ${MAX_LIFETIME_HOURS} 小時，像 \`/extend 1150 2\`，你很兩光欸。`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    const subs = listSubscriptions(ctx.chat, ctx.from.id).filter(
+      (s) => numberArg === undefined || s.target_number === Number(numberArg)
+    );
+    if (subs.length === 0) {
+      return ctx.reply("🤔 你在這裡沒有這張號碼牌，是要延長什麼，你很奇欸。", {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+    for (const sub of subs) {
+      extendSubscription(sub, hours * 60 * 60 * 1000);
+    }
+    await ctx.reply(
+      `⏳ ${formatTargetNumbers(subs)} 號幫你多留 ${hours} 小時，怕的是他。`,
+      { reply_to_message_id: ctx.message.message_id }
+    );
+  });
+
+  bot.callbackQuery(/extend_(-?\d+)_([a-z0-9-]+)_(\d+)/, async (ctx) => {
+    const userId = ctx.update.callback_query.from.id;
+    const chatId = Number(ctx.match[1]);
+    const shopId = ctx.match[2];
+    const targetNumber = Number(ctx.match[3]);
+
+    // Only the owner can extend – the lookup is keyed by the presser's id
+    const sub = findSubscription(chatId, userId, targetNumber, shopId);
+    if (!sub) {
+      return ctx.answerCallbackQuery(
+        "🗣️ 這張號碼牌不是你的，或已經沒了，告老師喔。"
+      );
+    }
+    extendSubscription(sub, 60 * 60 * 1000);
+    await ctx.answerCallbackQuery(`⏳ ${targetNumber} 號多留 1 小時`);
+    try {
+      await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+    } catch (e) {
+      console.error("Failed to remove extend button:", e);
+    }
+  });
+
+  // ------------------ /quiet ------------------
+  bot.command("quiet", async (ctx) => {
+    const parsed = await parseCommandArgs(
+      ctx,
+      "用法：`/quiet 23:00-08:00` 或 `/quiet off`"
+    );
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    if (arg === undefined) {
+      const quiet = getUserSettings(ctx.from.id).quiet_hours;
+      return ctx.reply(
+        quiet
+          ? `🤫 你的勿擾時段是 *${quiet.start}-${quiet.end}*，這段時間不急的通知偶會先壓著。關掉打 \`/quiet off\`。`
+          : "🤫 你沒有設勿擾時段。想設打 `/quiet 23:00-08:00`，叫到號碼還是會喊你，醬子。",
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    if (arg === "off") {
+      updateUserSettings(ctx.from.id, { quiet_hours: undefined });
+      return ctx.reply("✅ 勿擾時段關掉了，偶想講就講。", {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+    const quiet = parseQuietHours(arg);
+    if (quiet === null) {
+      return ctx.reply(
+        "🗣️ 告老師喔！要打像 `/quiet 23:00-08:00` 這樣，你很兩光欸。",
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+    updateUserSettings(ctx.from.id, { quiet_hours: quiet });
+    await ctx.reply(
+      `🤫 好啦，*${quiet.start}-${quiet.end}* 不急的通知偶先壓著，叫到號碼還是會喊你，醬子。`,
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  });
+
+  // ------------------ /shop ------------------
+  bot.command("shop", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, "用法：`/shop [店]`");
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    if (arg !== undefined) {
+      if (!isKnownShop(arg)) {
+        return ctx.reply("🗣️ 告老師喔！偶不認識這家店，你很兩光欸。", {
+          reply_to_message_id: ctx.message.message_id,
+        });
+      }
+      if (!(await isChatAdmin(ctx.api, ctx.chat, ctx.from.id))) {
+        return ctx.reply(ADMIN_ONLY_TEXT, {
+          reply_to_message_id: ctx.message.message_id,
+        });
+      }
+      updateChatSettings(ctx.chat.id, { default_shop: arg });
+      return ctx.reply(
+        `✅ 這裡之後預設看 *${getQueueSource(arg).name}* 的號碼，醬子。`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    const current = getChatShop(ctx.chat.id);
+    let text = "🍜 *偶看得到的店*\n";
+    for (const source of listQueueSources()) {
+      const mark = source.id === current ? "👑" : "•";
+      text += `${mark} ${source.name}（\`${source.id}\`）\n`;
+    }
+    text += "\n按下面選這裡預設的店，或打 `/number <店> <號碼>` 指定。";
+    await ctx.reply(text, {
+      parse_mode: "Markdown",
+      reply_to_message_id: ctx.message.message_id,
+      reply_markup: {
+        inline_keyboard: listQueueSources().map((source) => [
+          {
+            text: `${source.id === current ? "👑 " : ""}${source.name}`,
+            callback_data: `setshop_${source.id}`,
+          },
+        ]),
+      },
+    });
+  });
+
+  bot.callbackQuery(/setshop_([a-z0-9-]+)/, async (ctx) => {
+    const shopId = ctx.match[1];
+    if (!isKnownShop(shopId)) {
+      return ctx.answerCallbackQuery("🗣️ 偶不認識這家店，你很奇欸。");
+    }
+    // Anyone can tap the keyboard under someone else's /shop
+    const chat = ctx.update.callback_query.message.chat;
+    if (!(await isChatAdmin(ctx.api, chat, ctx.from.id))) {
+      return ctx.answerCallbackQuery(ADMIN_ONLY_TEXT);
+    }
+    updateChatSettings(chat.id, { default_shop: shopId });
+    await ctx.answerCallbackQuery(
+      `✅ 預設改成 ${getQueueSource(shopId).name} 了`
+    );
+    try {
+      await ctx.editMessageText(
+        `✅ 這裡之後預設看 *${getQueueSource(shopId).name}* 的號碼，醬子。`,
+        { parse_mode: "Markdown" }
+      );
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to edit /shop message:", e);
+      }
+    }
+  });
+
+  // Group-scoped subscription straight from the /number reply, no DM needed
+  bot.callbackQuery(/watch_([a-z0-9-]+)_(\d+)_(\d+)/, async (ctx) => {
+    const from = ctx.update.callback_query.from;
+    const message = ctx.update.callback_query.message;
+    const shopId = ctx.match[1];
+    const targetNumber = Number(ctx.match[2]);
+    const lead = Number(ctx.match[3]);
+    if (!isKnownShop(shopId)) {
+      return ctx.answerCallbackQuery("🗣️ 偶不認識這家店，你很奇欸。");
+    }
+
+    const currentNumber = await getCurrentNumber(shopId);
+    if (currentNumber === null) {
+      return ctx.answerCallbackQuery("😵‍💫 挖哩咧，偶拿不到號碼，很遜欸。");
+    }
+    if (targetNumber <= currentNumber) {
+      return ctx.answerCallbackQuery("🤡 都過號了，你很奇欸。");
+    }
+
+    const added = addSubscription(
+      message.chat.id,
+      from.id,
+      from.first_name,
+      targetNumber,
+      message.message_id,
+      { lead, shop: shopId }
+    );
+    if ("reason" in added) {
+      return ctx.answerCallbackQuery(
+        subscribeFailureText(added.reason, targetNumber)
+      );
+    }
+    await ctx.answerCallbackQuery(`👑 ${targetNumber} 號偶記下了，怕的是他。`);
+
+    const { text, entities } = textWithMention(
+      "✅ ",
+      from,
+      ` 已訂閱 ${shopLabel(shopId)}${targetNumber} 號，叫到偶在這裡喊你。`
+    );
+    await ctx.api.sendMessage(message.chat.id, text, {
+      entities,
+      reply_to_message_id: message.message_id,
+    });
+  });
+
+  bot.callbackQuery(/delsub_(-?\d+)_([a-z0-9-]+)_(\d+)/, async (ctx) => {
+    const userId = ctx.update.callback_query.from.id;
+    const chatId = Number(ctx.match[1]);
+    const shopId = ctx.match[2];
+    const targetNumber = Number(ctx.match[3]);
+
+    // Only the owner can cancel – the lookup is keyed by the presser's id
+    const removed = removeSubscription(chatId, userId, targetNumber, shopId);
+    if (!removed) {
+      return ctx.answerCallbackQuery(
+        "🗣️ 這張號碼牌不是你的，或已經取消了，告老師喔。"
+      );
+    }
+    await ctx.answerCallbackQuery(`🚫 已取消 ${targetNumber} 號`);
+
+    const subs = listSubscriptions(
+      ctx.update.callback_query.message.chat,
+      userId
+    );
+    const { text, inline_keyboard } = buildMySubsMessage(subs, userId);
+    try {
+      await ctx.editMessageText(text, {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard },
+      });
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to refresh /mysubs message:", e);
+      }
+    }
+  });
+}
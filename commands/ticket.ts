@@ -0,0 +1,223 @@
+import { Api, Bot } from "grammy";
+import { escapeMarkdown, safeReply } from "../utils/telegram.js";
+import { getCurrentNumber } from "../utils/number.js";
+import { getChatSettings, getChatShop } from "../utils/chatSettings.js";
+import { getQueueSource } from "../utils/queueSource.js";
+import {
+  addSubscription,
+  validateTargetNumber,
+} from "../utils/subscription.js";
+import {
+  PollRecord,
+  breakdownVotes,
+  computeBill,
+  countVotes,
+  getPollMenuName,
+  getPollRecord,
+  getPollSlots,
+  getVoters,
+  listAttendees,
+  updatePollRecord,
+} from "../utils/pollService.js";
+import { etaText, shopLabel } from "./subscription.js";
+
+// Queue numbers are at most this many digits
+const MAX_DIGITS = 5;
+
+/**
+ * Order summary to show at the counter: totals per item, no names.
+ */
+function buildTicketText(record: PollRecord): string {
+  const slots = getPollSlots(record);
+  const { options } = breakdownVotes(slots, record.votes);
+  const { total } = computeBill(slots, record.votes);
+  const menuName = getPollMenuName(record);
+
+  let text = `🎫 點餐單${menuName ? `｜${menuName}` : ""}\n`;
+  for (const option of options) {
+    if (option.total > 0) text += `${option.label} ×${option.total}\n`;
+  }
+  text += `———\n共 ${countVotes(slots, record.votes)} 份`;
+  if (total > 0) text += `，$${total}`;
+  text += "\n";
+  text +=
+    record.ticket_number === undefined
+      ? "🔢 號碼牌：還沒登記，拿到號碼的人在下面輸入，偶幫大家一起訂閱。"
+      : `🔢 號碼牌：${record.ticket_number} 號，叫到偶會通知大家，醬子。`;
+  return text;
+}
+
+/**
+ * Number pad for entering the queue number; the digits typed so far ride
+ * along in the callback data.
+ */
+function buildKeypad(
+  pollId: string,
+  digits: string
+): { text: string; callback_data: string }[][] {
+  const key = (d: string) => ({
+    text: d,
+    callback_data: `ticketkey_${pollId}_${
+      digits.length < MAX_DIGITS ? digits + d : digits
+    }`,
+  });
+  return [
+    ["1", "2", "3"].map(key),
+    ["4", "5", "6"].map(key),
+    ["7", "8", "9"].map(key),
+    [
+      {
+        text: "⌫",
+        callback_data: `ticketkey_${pollId}_${digits.slice(0, -1)}`,
+      },
+      key("0"),
+      {
+        text: digits ? `✅ ${digits} 號` : "✅",
+        callback_data: `ticketsub_${pollId}_${digits}`,
+      },
+    ],
+  ];
+}
+
+/**
+ * Post the order ticket of a closed menu poll, with a number pad to register
+ * the queue number for everyone who ordered.
+ */
+export async function sendOrderTicket(
+  api: Api,
+  pollId: string,
+  record: PollRecord,
+  replyTo?: number
+) {
+  if (listAttendees(getPollSlots(record), record.votes).length === 0) return;
+  const sent = await api.sendMessage(record.chat_id, buildTicketText(record), {
+    reply_to_message_id: replyTo,
+    reply_markup: { inline_keyboard: buildKeypad(pollId, "") },
+  });
+  updatePollRecord(pollId, { ticket_message_id: sent.message_id });
+}
+
+/**
+ * Whoever ordered, or the organizer, may fill in the ticket.
+ */
+function canUseTicket(record: PollRecord, userId: number): boolean {
+  return (
+    userId === record.user_id ||
+    listAttendees(getPollSlots(record), record.votes).includes(String(userId))
+  );
+}
+
+/**
+ * Register order ticket callbacks on the provided bot instance.
+ */
+export function registerTicketCommands(bot: Bot) {
+  bot.callbackQuery(/ticketkey_(\d+)_(\d*)/, async (ctx) => {
+    const pollId = ctx.match[1];
+    const digits = ctx.match[2];
+    const record = getPollRecord(pollId);
+    if (!record || record.ticket_number !== undefined) {
+      return ctx.answerCallbackQuery("🤔 這張點餐單已經登記過了。");
+    }
+    if (!canUseTicket(record, ctx.from.id)) {
+      return ctx.answerCallbackQuery("🗣️ 告老師喔，你又沒點，你很奇欸。");
+    }
+    await ctx.answerCallbackQuery(digits || "清掉了");
+    try {
+      await ctx.editMessageReplyMarkup({
+        reply_markup: { inline_keyboard: buildKeypad(pollId, digits) },
+      });
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to refresh ticket keypad:", e);
+      }
+    }
+  });
+
+  bot.callbackQuery(/ticketsub_(\d+)_(\d*)/, async (ctx) => {
+    const pollId = ctx.match[1];
+    const digits = ctx.match[2];
+    const record = getPollRecord(pollId);
+    if (!record || record.ticket_number !== undefined) {
+      return ctx.answerCallbackQuery("🤔 這張點餐單已經登記過了。");
+    }
+    if (!canUseTicket(record, ctx.from.id)) {
+      return ctx.answerCallbackQuery("🗣️ 告老師喔，你又沒點，你很奇欸。");
+    }
+    if (!digits) {
+      return ctx.answerCallbackQuery("🔢 先按號碼啦，你很兩光欸。");
+    }
+
+    const targetNumber = Number(digits);
+    const shopId = getChatShop(record.chat_id);
+    const source = getQueueSource(shopId);
+    const currentNumber = await getCurrentNumber(shopId);
+    if (currentNumber === null) {
+      return ctx.answerCallbackQuery("😵‍💫 挖哩咧，偶拿不到號碼，等等再試。");
+    }
+    const error = validateTargetNumber(targetNumber, currentNumber, source);
+    if (error === "already_passed") {
+      return ctx.answerCallbackQuery(
+        `🤡 現在已經叫到 ${currentNumber} 號了，你很奇欸。`
+      );
+    }
+    if (error) {
+      return ctx.answerCallbackQuery(
+        `🗣️ 號碼要在 ${source.minNumber} 到 ${source.maxNumber} 之間，你很兩光欸。`
+      );
+    }
+    // Someone else may have confirmed while we fetched the number
+    if (getPollRecord(pollId).ticket_number !== undefined) {
+      return ctx.answerCallbackQuery("🤔 這張點餐單已經登記過了。");
+    }
+    const updated = updatePollRecord(pollId, { ticket_number: targetNumber });
+
+    const voters = getVoters();
+    const lead = getChatSettings(record.chat_id).default_lead ?? 0;
+    const subscribed: string[] = [];
+    const skipped: string[] = [];
+    for (const userId of listAttendees(getPollSlots(record), record.votes)) {
+      const name = voters[userId]?.first_name ?? userId;
+      const added = addSubscription(
+        record.chat_id,
+        Number(userId),
+        name,
+        targetNumber,
+        record.ticket_message_id,
+        { lead, shop: shopId }
+      );
+      // Already watching this number is as good as subscribed
+      if ("reason" in added && added.reason !== "duplicate") {
+        skipped.push(name);
+      } else {
+        subscribed.push(name);
+      }
+    }
+
+    await ctx.answerCallbackQuery(`✅ ${targetNumber} 號，訂閱好了`);
+    try {
+      await ctx.editMessageText(buildTicketText(updated), {
+        reply_markup: { inline_keyboard: [] },
+      });
+    } catch (e) {
+      console.error("Failed to update order ticket:", e);
+    }
+
+    const names = (list: string[]) => list.map(escapeMarkdown).join("、");
+    let text = `👑 哼嗯，${escapeMarkdown(
+      shopLabel(shopId)
+    )}*${targetNumber}* 號是吧？`;
+    if (subscribed.length > 0) {
+      text += `偶幫 ${names(subscribed)} 訂閱了，叫到一起通知，怕的是他。`;
+    }
+    text += `\n${etaText(shopId, targetNumber, currentNumber)}`;
+    if (skipped.length > 0) {
+      text += `\n⚠️ ${names(
+        skipped
+      )} 號碼牌訂太多張了，沒訂到，先打 /mysubs 清一下。`;
+    }
+    await safeReply(ctx, text, {
+      parse_mode: "Markdown",
+      reply_to_message_id: record.ticket_message_id,
+    });
+  });
+}
@@ -1,6 +1,260 @@
-import { Bot } from "grammy";
-import { hash } from "../utils/telegram.js";
-import { voteData, updatePollData, parsePollResult } from "../utils/poll.js";
+import { Api, Bot } from "grammy";
+import {
+  hash,
+  escapeMarkdown,
+  escapeMarkdownV2,
+  safeReply,
+  textWithMentions,
+} from "../utils/telegram.js";
+import { ParsedArgs, parseCommandArgs } from "../utils/args.js";
+import { parseDeadline } from "../utils/date.js";
+import {
+  PollRecord,
+  breakdownVotes,
+  computeBill,
+  countVotes,
+  createPoll,
+  getPollRecord,
+  getPollSlots,
+  getPollStrategy,
+  getVoters,
+  listDuePolls,
+  recordAnswer,
+  setPaid,
+  MAX_NAGS_PER_POLL,
+  findPollByMessage,
+  listRegulars,
+  pollKeyboard,
+  stopPoll,
+  tallyOptions,
+  updatePollRecord,
+} from "../utils/pollService.js";
+import { DEFAULT_MENU, isKnownMenu } from "../utils/menu.js";
+import { getUserSettings, updateUserSettings } from "../utils/userSettings.js";
+import { summarizeLunches, parseStatsPeriod } from "../utils/lunchStats.js";
+import { POLL_RETENTION_DAYS, prunePolls } from "../utils/pollArchive.js";
+import { isBotAdmin } from "../utils/admin.js";
+import { sendOrderTicket } from "./ticket.js";
+
+/**
+ * Pull a deadline out of parsed arguments: `@11:30` or `--close 20m`.
+ * `invalid` is set when a deadline was given but could not be parsed.
+ */
+export function extractDeadline(parsed: ParsedArgs): {
+  args: string[];
+  closeAt: number | null;
+  invalid: boolean;
+} {
+  const args = parsed.args.filter((a) => !/^@\d/.test(a));
+  const value = parsed.options.close ?? parsed.args.find((a) => /^@\d/.test(a));
+  if (value === undefined) return { args, closeAt: null, invalid: false };
+  const closeAt = parseDeadline(value);
+  return { args, closeAt, invalid: closeAt === null };
+}
+
+const DEADLINE_USAGE =
+  "🗣️ 告老師喔！截止時間要打 `@11:30` 或 `--close 20m` 這樣，一天以內，你很兩光欸。";
+
+const VOTE_USAGE = [
+  "用法：",
+  "`/vote [主題] [不來的選項]` 揪 +1/+2/+4",
+  '`/vote "週五聚餐 去哪" 拉麵 火鍋 燒肉` 自己給選項',
+  "可以加 `--single` 單選、`--anonymous` 匿名、`--close 20m` 或 `@11:30` 自動結束。",
+].join("\n");
+
+const VOTERAMEN_USAGE =
+  "用法：`/voteramen [菜單] [主題] [不來的選項]`，可以加 `--close 20m` 或 `@11:30` 自動結束。";
+
+const LUNCHSTATS_USAGE = "用法：`/lunchstats [7d|30d|all]`";
+
+const PRUNEPOLLS_USAGE = `用法：\`/prunepolls [天數]\`，預設封存 ${POLL_RETENTION_DAYS} 天前結束的投票。`;
+
+// Telegram poll limits
+const MAX_POLL_OPTIONS = 10;
+const MAX_OPTION_LENGTH = 100;
+const MAX_QUESTION_LENGTH = 300;
+
+/**
+ * Per-person bill of a closed menu poll, with one "paid" toggle per payer.
+ */
+function buildBillMessage(
+  pollId: string,
+  record: PollRecord
+): {
+  text: string;
+  inline_keyboard: { text: string; callback_data: string }[][];
+} | null {
+  const { lines, total } = computeBill(
+    getPollSlots(record),
+    record.votes,
+    getVoters()
+  );
+  if (lines.length === 0) return null;
+  const paid: Record<string, number> = record.paid ?? {};
+
+  let text = `💰 帳單來囉，錢拿給發起人，醬子。\n`;
+  let collected = 0;
+  for (const line of lines) {
+    const items = line.items.map((i) => `${i.label} ×${i.quantity}`).join("、");
+    const mark = paid[line.user_id] ? "✅" : "⬜";
+    if (paid[line.user_id]) collected += line.amount;
+    text += `${mark} ${line.name}：${items}，$${line.amount}\n`;
+  }
+  text += `———\n總共 $${total}，已收 $${collected}。`;
+  if (collected === total) text += "全部付清，很ㄅㄧㄤˋ吧！🥳";
+
+  const inline_keyboard = lines.map((line) => [
+    {
+      text: `${paid[line.user_id] ? "✅" : "💸"} ${line.name} $${line.amount}`,
+      callback_data: `billpaid_${pollId}_${line.user_id}`,
+    },
+  ]);
+  return { text, inline_keyboard };
+}
+
+/**
+ * Who picked which option, e.g. "🥚 加蛋 ×3：小明(2)、阿華(1)", and who
+ * opted out. Escaped for MarkdownV2.
+ */
+function formatBreakdown(record: PollRecord, withQuantity: boolean): string {
+  const { options, byeVoters } = breakdownVotes(
+    getPollSlots(record),
+    record.votes,
+    getVoters()
+  );
+  let txt = "";
+  for (const option of options) {
+    const names = option.voters
+      .map((v) => (withQuantity ? `${v.name}(${v.quantity})` : v.name))
+      .join("、");
+    const head = withQuantity
+      ? `${option.label} ×${option.total}`
+      : option.label;
+    txt += escapeMarkdownV2(names ? `${head}：${names}` : head) + "\n";
+  }
+  if (byeVoters.length > 0) {
+    const byeLabel = record.options[record.options.length - 1]?.text ?? "";
+    txt += escapeMarkdownV2(`${byeLabel}：${byeVoters.join("、")}`) + "\n";
+  }
+  return txt;
+}
+
+/**
+ * Votes per option of a custom poll, most popular first, with names unless
+ * the poll is anonymous. Escaped for MarkdownV2.
+ */
+function formatCustomResult(record: PollRecord): string {
+  const { options } = breakdownVotes(
+    getPollSlots(record),
+    record.anonymous ? {} : record.votes,
+    getVoters()
+  );
+  return record.options
+    .map((option, i) => ({
+      text: option.text,
+      count: option.voter_count,
+      names: options[i]?.voters.map((v) => v.name) ?? [],
+    }))
+    .sort((a, b) => b.count - a.count)
+    .map(({ text, count, names }) => {
+      const line = `${text} ×${count}`;
+      return escapeMarkdownV2(
+        names.length > 0 ? `${line}：${names.join("、")}` : line
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Stop a poll and post its summary; menu polls also get the bill and the
+ * order ticket.
+ */
+async function closeVote(api: Api, chatId: number, messageId: number) {
+  const { pollId, record } = await stopPoll(api, chatId, messageId);
+  const { count } = tallyOptions(getPollSlots(record), record.options);
+  const question = escapeMarkdownV2(record.question);
+  const kind = getPollStrategy(record).kind;
+
+  if (kind === "custom") {
+    await api.sendMessage(
+      chatId,
+      `*${question}* 投票結束，醬子。🥳\n${formatCustomResult(record)}`,
+      {
+        parse_mode: "MarkdownV2",
+        reply_to_message_id: messageId,
+      }
+    );
+    return;
+  }
+  if (kind === "generic") {
+    await api.sendMessage(
+      chatId,
+      `*${question}* 投票結束，醬子共 ${count} 個人要ㄘ。🥳\n${formatBreakdown(
+        record,
+        false
+      )}`,
+      {
+        parse_mode: "MarkdownV2",
+        reply_to_message_id: messageId,
+      }
+    );
+    return;
+  }
+
+  let txt = `*${question}* 點餐結果，挖賽！🤩\n`;
+  txt += formatBreakdown(record, true);
+  txt += `———\n共 ${count} 個人，醬子。🥳`;
+  await api.sendMessage(chatId, txt, {
+    parse_mode: "MarkdownV2",
+    reply_to_message_id: messageId,
+  });
+
+  // The organizer collects the money, so their own share counts as paid
+  if (record.user_id && record.votes[record.user_id]) {
+    setPaid(pollId, String(record.user_id), true);
+  }
+  const bill = buildBillMessage(pollId, getPollRecord(pollId));
+  if (bill) {
+    const sent = await api.sendMessage(chatId, bill.text, {
+      reply_to_message_id: messageId,
+      reply_markup: { inline_keyboard: bill.inline_keyboard },
+    });
+    updatePollRecord(pollId, { bill_message_id: sent.message_id });
+  }
+  await sendOrderTicket(api, pollId, getPollRecord(pollId), messageId);
+}
+
+/**
+ * Close every open poll whose deadline has passed. Deadlines live in the poll
+ * records, so this also picks up polls scheduled before a restart.
+ */
+export async function closeDuePolls(bot: Bot) {
+  for (const [id, record] of listDuePolls()) {
+    try {
+      await closeVote(bot.api, record.chat_id, record.message_id);
+    } catch (e) {
+      // Already closed by hand, or the poll message is gone – stop retrying
+      console.error(`Failed to auto-close poll ${id}:`, e);
+      updatePollRecord(id, { close_at: undefined });
+    }
+  }
+}
+
+/**
+ * Archive finished polls past the retention period so votes.json stays small.
+ */
+export function pruneOldPolls() {
+  try {
+    const { archived, months } = prunePolls();
+    if (archived > 0) {
+      console.log(
+        `[vote] archived ${archived} polls into ${months.join(", ")}`
+      );
+    }
+  } catch (e) {
+    console.error("Failed to prune polls:", e);
+  }
+}
 
 /**
  * Register vote-related commands and callbacks on the provided bot instance.
@@ -9,37 +263,47 @@ export function registerVoteCommands(bot: Bot) {
   // ------------------ /vote ------------------
   bot.command("vote", async (ctx) => {
     console.log("[vote] command", { chat: ctx.chat.id, from: ctx.from.id });
-    const args = ctx.message.text.split(" ").slice(1);
-    const voteTitle = args[0] ?? "今天ㄘ什麼 🤔";
-    const byeOptionsPool = ["偶不吃了 😠", "怕的是他 👑", "蓋被被 😴"];
-    const byeOption =
-      args[1] ??
-      byeOptionsPool[Math.floor(Math.random() * byeOptionsPool.length)];
-    const voteOptions = ["+1", "+2", "+4", byeOption];
-
-    const pollOptions = voteOptions.map((t) => ({ text: t }));
-    const data = await ctx.api.sendPoll(ctx.chat.id, voteTitle, pollOptions, {
-      allows_multiple_answers: true,
-      is_anonymous: false,
-      reply_to_message_id: ctx.message.message_id,
-      reply_markup: {
-        inline_keyboard: [
-          [
-            {
-              text: "🚫 結束！很遜欸",
-              callback_data: `stopvote_${hash(ctx.message.from.id)}`,
-            },
-          ],
-        ],
-      },
+    const parsed = await parseCommandArgs(ctx, VOTE_USAGE, {
+      flags: ["single", "anonymous"],
+      options: ["close"],
     });
+    if (!parsed) return;
+    const { args, closeAt, invalid } = extractDeadline(parsed);
+    if (invalid) {
+      return ctx.reply(DEADLINE_USAGE, {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+
+    // Two or more options after the title make a custom poll
+    const [title, ...options] = args;
+    const isCustom = options.length >= 2;
+    if (
+      (title && title.length > MAX_QUESTION_LENGTH) ||
+      options.length > MAX_POLL_OPTIONS ||
+      options.some((o) => o.length > MAX_OPTION_LENGTH) ||
+      (isCustom && new Set(options).size !== options.length)
+    ) {
+      return safeReply(
+        ctx,
+        `🗣️ 告老師喔！最多 ${MAX_POLL_OPTIONS} 個選項、不能重複，每個 ${MAX_OPTION_LENGTH} 字以內，你很兩光欸。\n${VOTE_USAGE}`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
 
-    updatePollData(data.poll.id, {
-      ...data.poll,
-      chat_id: ctx.chat.id,
-      chat_name: ctx.chat.title || ctx.chat.first_name,
-      chat_type: ctx.chat.type,
-      votes: {},
+    await createPoll(ctx.api, ctx.chat, ctx.from.id, {
+      kind: isCustom ? "custom" : "generic",
+      options: isCustom ? options : undefined,
+      title,
+      byeOption: isCustom ? undefined : options[0],
+      single: parsed.flags.single,
+      anonymous: parsed.flags.anonymous,
+      closeAt,
+      replyTo: ctx.message.message_id,
     });
   });
 
@@ -49,67 +313,35 @@ export function registerVoteCommands(bot: Bot) {
         "🗣️ 告老師喔，只有發起人才能結束投票，你很奇欸。"
       );
     }
-    const poll = await ctx.api.stopPoll(
+    await closeVote(
+      ctx.api,
       ctx.update.callback_query.message.chat.id,
       ctx.update.callback_query.message.message_id
     );
-    const count = poll.options.slice(0, -1).reduce((acc, cur) => {
-      const multiplier = Number(cur.text.replace("+", "").trim());
-      return acc + cur.voter_count * multiplier;
-    }, 0);
-    await ctx.reply(
-      `*${poll.question}* 投票結束，醬子共 ${count} 個人要ㄘ。🥳`,
-      {
-        parse_mode: "MarkdownV2",
-        reply_to_message_id: ctx.update.callback_query.message.message_id,
-      }
-    );
-    updatePollData(poll.id, poll);
   });
 
   // ------------------ /voteramen ------------------
   bot.command("voteramen", async (ctx) => {
-    const args = ctx.message.text.split(" ").slice(1);
-    const voteTitle = args[0] ?? "限定拉麵，點餐！🍜";
-    const byeOptionsArr = ["偶不吃了 😠", "怕的是他 👑", "蓋被被 😴"];
-    const byeOpt =
-      args[1] ??
-      byeOptionsArr[Math.floor(Math.random() * byeOptionsArr.length)];
-
-    const voteOptions = [
-      "+1 | 🍜 單點",
-      "+2 | 🍜 單點",
-      "+1 | 🥚 加蛋",
-      "+2 | 🥚 加蛋",
-      "+1 | ✨ 超值",
-      "+2 | ✨ 超值",
-      byeOpt,
-    ];
-    const pollOptions = voteOptions.map((t) => ({ text: t }));
-    const data = await ctx.api.sendPoll(ctx.chat.id, voteTitle, pollOptions, {
-      allows_multiple_answers: true,
-      is_anonymous: false,
-      reply_to_message_id: ctx.message.message_id,
-      reply_markup: {
-        inline_keyboard: [
-          [
-            {
-              text: "👥 0 人 | 🚫 結束投票",
-              callback_data: `stopramenvote_${hash(ctx.message.from.id)}`,
-            },
-          ],
-        ],
-      },
+    const parsed = await parseCommandArgs(ctx, VOTERAMEN_USAGE, {
+      options: ["close"],
     });
-
-    updatePollData(data.poll.id, {
-      ...data.poll,
-      chat_id: ctx.chat.id,
-      message_id: data.message_id,
-      user_id: ctx.from.id,
-      chat_name: ctx.chat.title || ctx.chat.first_name,
-      chat_type: ctx.chat.type,
-      votes: {},
+    if (!parsed) return;
+    const { args, closeAt, invalid } = extractDeadline(parsed);
+    if (invalid) {
+      return ctx.reply(DEADLINE_USAGE, {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+    // Optional menu id first, e.g. `/voteramen tsukemen 沾麵團`
+    const menuId = isKnownMenu(args[0] ?? "") ? args.shift() : DEFAULT_MENU;
+    await createPoll(ctx.api, ctx.chat, ctx.from.id, {
+      kind: menuId === DEFAULT_MENU ? "ramen" : "menu",
+      menuId,
+      title: args[0],
+      byeOption: args[1],
+      closeAt,
+      replyTo: ctx.message.message_id,
     });
   });
 
@@ -119,57 +351,231 @@ export function registerVoteCommands(bot: Bot) {
         "🗣️ 告老師喔，只有發起人才能結束投票，你很奇欸。"
       );
     }
-    const poll = await ctx.api.stopPoll(
+    await closeVote(
+      ctx.api,
       ctx.update.callback_query.message.chat.id,
       ctx.update.callback_query.message.message_id
     );
-    const { count, result } = parsePollResult(poll);
-    let txt = `*${poll.question}* 點餐結果，挖賽！🤩\n`;
-    for (const k in result) txt += `${k}：${result[k]} 人\n`;
-    txt += `———\n共 ${count} 個人，醬子。🥳`;
-    await ctx.reply(txt, {
-      parse_mode: "MarkdownV2",
-      reply_to_message_id: ctx.update.callback_query.message.message_id,
+  });
+
+  bot.callbackQuery(/nagvote_(.+)/, async (ctx) => {
+    if (ctx.match[1] !== hash(ctx.update.callback_query.from.id)) {
+      return ctx.answerCallbackQuery(
+        "🗣️ 告老師喔，只有發起人才能催，你很奇欸。"
+      );
+    }
+    const message = ctx.update.callback_query.message;
+    const found = findPollByMessage(message.chat.id, message.message_id);
+    if (!found || found[1].is_closed) {
+      return ctx.answerCallbackQuery("🤔 這個投票已經結束了。");
+    }
+    const [pollId, record] = found;
+    const nagCount = record.nag_count ?? 0;
+    if (nagCount >= MAX_NAGS_PER_POLL) {
+      return ctx.answerCallbackQuery(
+        `🙉 已經催 ${MAX_NAGS_PER_POLL} 次了，再催會被封鎖啦。`
+      );
+    }
+
+    const voters = getVoters();
+    const targets = listRegulars(record.chat_id, pollId)
+      .filter(
+        (userId) =>
+          userId !== String(record.user_id) &&
+          !record.votes[userId]?.length &&
+          !getUserSettings(Number(userId)).no_nag
+      )
+      .map((userId) => ({
+        id: Number(userId),
+        first_name: voters[userId]?.first_name ?? userId,
+      }));
+    if (targets.length === 0) {
+      return ctx.answerCallbackQuery("🥳 常客都投過了，不用催啦。");
+    }
+
+    updatePollRecord(pollId, { nag_count: nagCount + 1 });
+    await ctx.answerCallbackQuery(
+      `⏰ 催了 ${targets.length} 個人（${nagCount + 1}/${MAX_NAGS_PER_POLL}）`
+    );
+    const { text, entities } = textWithMentions(
+      "⏰ ",
+      targets,
+      " ，投票在等你們，還不快來！不想被催打 /nonag，醬子。"
+    );
+    await ctx.api.sendMessage(record.chat_id, text, {
+      entities,
+      reply_to_message_id: message.message_id,
+    });
+  });
+
+  // ------------------ /nonag ------------------
+  bot.command("nonag", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, "用法：`/nonag [on|off]`");
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    if (arg !== undefined && arg !== "on" && arg !== "off") {
+      return ctx.reply(
+        "🗣️ 告老師喔！要打 `/nonag on` 或 `/nonag off`，你很兩光欸。",
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+    // No argument toggles
+    const noNag =
+      arg === undefined ? !getUserSettings(ctx.from.id).no_nag : arg === "on";
+    updateUserSettings(ctx.from.id, { no_nag: noNag || undefined });
+    await ctx.reply(
+      noNag
+        ? "🙉 好啦，投票催人不會再叫到你，想恢復打 `/nonag off`。"
+        : "⏰ 投票催人又會叫到你了，怕的是他。",
+      {
+        parse_mode: "Markdown",
+        reply_to_message_id: ctx.message.message_id,
+      }
+    );
+  });
+
+  bot.callbackQuery(/billpaid_(\d+)_(\d+)/, async (ctx) => {
+    const pollId = ctx.match[1];
+    const payerId = ctx.match[2];
+    const presserId = String(ctx.update.callback_query.from.id);
+    const record = getPollRecord(pollId);
+    if (!record) {
+      return ctx.answerCallbackQuery("🤔 偶找不到這張帳單，很遜欸。");
+    }
+    // Payers tick themselves off; the organizer may tick anyone
+    if (presserId !== payerId && presserId !== String(record.user_id)) {
+      return ctx.answerCallbackQuery(
+        "🗣️ 告老師喔，不能幫別人按付錢，你很奇欸。"
+      );
+    }
+
+    const paid = !record.paid?.[payerId];
+    setPaid(pollId, payerId, paid);
+    await ctx.answerCallbackQuery(paid ? "✅ 記下來了，感恩" : "↩️ 改回還沒付");
+
+    const bill = buildBillMessage(pollId, getPollRecord(pollId));
+    if (!bill) return;
+    try {
+      await ctx.editMessageText(bill.text, {
+        reply_markup: { inline_keyboard: bill.inline_keyboard },
+      });
+    } catch (e) {
+      if (!e.message.includes("message is not modified")) {
+        console.error("Failed to refresh bill message:", e);
+      }
+    }
+  });
+
+  // ------------------ /lunchstats ------------------
+  bot.command("lunchstats", async (ctx) => {
+    const parsed = await parseCommandArgs(ctx, LUNCHSTATS_USAGE);
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    const since = parseStatsPeriod(arg);
+    if (since === undefined) {
+      return ctx.reply(
+        `🗣️ 告老師喔！要打 \`7d\`、\`30d\` 或 \`all\`，你很兩光欸。\n${LUNCHSTATS_USAGE}`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+    const period =
+      since === null ? "有史以來" : `最近 ${arg ? arg.slice(0, -1) : 30} 天`;
+
+    const stats = summarizeLunches(ctx.chat.id, since);
+    if (!stats) {
+      return ctx.reply(`🤔 ${period}這裡都沒揪過團，大家是都在減肥喔？`, {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+
+    let text = `📊 *${period}的午餐統計*\n`;
+    text += `🗳️ 揪了 ${stats.polls} 次，平均 ${stats.averageHeadcount.toFixed(
+      1
+    )} 人\n`;
+    if (stats.topItem) {
+      text += `👑 最紅：${escapeMarkdown(stats.topItem.label)}（共 ${
+        stats.topItem.total
+      } 碗）\n`;
+    }
+    const streaker = [...stats.members].sort(
+      (a, b) => b.longestStreak - a.longestStreak
+    )[0];
+    if (streaker?.longestStreak > 1) {
+      text += `🔥 最長連續出席：${escapeMarkdown(streaker.name)} ${
+        streaker.longestStreak
+      } 次\n`;
+    }
+    text += `\n👥 *出席率*\n`;
+    for (const member of stats.members.slice(0, 10)) {
+      text += `• ${escapeMarkdown(member.name)} ${Math.round(
+        member.rate * 100
+      )}%（${member.attended}/${stats.polls}）\n`;
+    }
+    await safeReply(ctx, text, {
+      parse_mode: "Markdown",
+      reply_to_message_id: ctx.message.message_id,
     });
-    updatePollData(poll.id, poll);
+  });
+
+  // ------------------ /prunepolls ------------------
+  bot.command("prunepolls", async (ctx) => {
+    if (!isBotAdmin(ctx.from.id)) {
+      return ctx.reply("🗣️ 告老師喔，這個只有管理員能用，你很奇欸。", {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+    const parsed = await parseCommandArgs(ctx, PRUNEPOLLS_USAGE);
+    if (!parsed) return;
+    const arg = parsed.args[0];
+    const days = arg === undefined ? POLL_RETENTION_DAYS : Number(arg);
+    if (!Number.isInteger(days) || days < 1) {
+      return ctx.reply(
+        `🗣️ 告老師喔！天數要打正整數，你很兩光欸。\n${PRUNEPOLLS_USAGE}`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: ctx.message.message_id,
+        }
+      );
+    }
+
+    const { archived, months, bytes } = prunePolls(days);
+    if (archived === 0) {
+      return ctx.reply(`🧹 沒有 ${days} 天前結束的投票，很乾淨，醬子。`, {
+        reply_to_message_id: ctx.message.message_id,
+      });
+    }
+    await ctx.reply(
+      `🧹 封存了 ${archived} 個投票，votes.json 少了 ${(bytes / 1024).toFixed(
+        1
+      )} KB，放在 ${months
+        .map((m) => `votes-${m}.json`)
+        .join("、")}。統計還是會算它們，醬子。`,
+      { reply_to_message_id: ctx.message.message_id }
+    );
   });
 
   // ------------------ poll_answer ------------------
   bot.on("poll_answer", async (ctx) => {
     const pollAnswer = ctx.update.poll_answer;
-    const users = voteData.get("users") || {};
-    users[pollAnswer.user.id] = {
-      first_name: pollAnswer.user?.first_name,
-      username: pollAnswer.user?.username,
-    };
-    voteData.set("users", users);
-
-    const polls = voteData.get("polls") || {};
-    const poll = polls[pollAnswer.poll_id];
+    const poll = recordAnswer(
+      pollAnswer.poll_id,
+      pollAnswer.user,
+      pollAnswer.option_ids
+    );
     if (!poll) return;
-    poll.votes[pollAnswer.user.id] = pollAnswer.option_ids;
-    updatePollData(pollAnswer.poll_id, poll);
-
-    // Update dynamic voter count for ramen vote
-    const isRamen = poll.options.some((opt: any) => opt.text.includes("|"));
-    if (!isRamen) return;
-    const total = Object.values(poll.votes)
-      .flatMap((o: any) => o as number[])
-      .filter((id: number) => id !== poll.options.length - 1)
-      .map((id: number) => (id % 2) + 1)
-      .reduce((s: number, q: number) => s + q, 0);
+
+    // Update dynamic voter count for menu votes
+    if (!getPollStrategy(poll).liveHeadcount) return;
+    const total = countVotes(getPollSlots(poll), poll.votes);
     try {
       await ctx.api.editMessageReplyMarkup(poll.chat_id, poll.message_id, {
-        reply_markup: {
-          inline_keyboard: [
-            [
-              {
-                text: `👥 ${total} 人 | 🚫 結束投票`,
-                callback_data: `stopramenvote_${hash(poll.user_id)}`,
-              },
-            ],
-          ],
-        },
+        reply_markup: { inline_keyboard: pollKeyboard(poll, total) },
       });
     } catch (e) {
       if (!e.message.includes("message is not modified")) {
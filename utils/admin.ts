@@ -0,0 +1,35 @@
+import { Api } from "grammy";
+
+/**
+ * Whether the user is a bot operator, listed in the comma-separated
+ * ADMIN_USER_IDS environment variable.
+ */
+export function isBotAdmin(userId: number): boolean {
+  return (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .includes(String(userId));
+}
+
+/**
+ * Whether the user may moderate the chat: a group admin, or anyone in a
+ * private chat.
+ */
+export async function isChatAdmin(
+  api: Api,
+  chat: { id: number; type: string },
+  userId: number
+): Promise<boolean> {
+  if (chat.type === "private") return true;
+  try {
+    const member = await api.getChatMember(chat.id, userId);
+    return member.status === "creator" || member.status === "administrator";
+  } catch (e) {
+    console.error("Failed to check chat admin:", e);
+    return false;
+  }
+}
+
+// Refusal for members trying to change a chat-wide setting
+export const ADMIN_ONLY_TEXT =
+  "🗣️ 告老師喔，只有群組管理員能改這個，你很奇欸。";
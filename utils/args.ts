@@ -0,0 +1,104 @@
+import { Context } from "grammy";
+import { safeReply } from "./telegram.js";
+
+/**
+ * Flags a command accepts: `flags` are switches like `--single`, `options`
+ * take a value like `--close 20m` or `--close=20m`.
+ */
+export interface ArgSpec {
+  flags?: string[];
+  options?: string[];
+}
+
+export interface ParsedArgs {
+  args: string[];
+  flags: Record<string, boolean>;
+  options: Record<string, string>;
+}
+
+export class ArgParseError extends Error {}
+
+// Opening quote → closing quote; phones often send curly quotes
+const QUOTES: Record<string, string> = {
+  '"': '"',
+  "“": "”",
+  "「": "」",
+};
+
+function tokenize(input: string): { text: string; quoted: boolean }[] {
+  const tokens: { text: string; quoted: boolean }[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const close = QUOTES[input[i]];
+    if (close) {
+      const end = input.indexOf(close, i + 1);
+      if (end === -1) throw new ArgParseError("引號沒有關起來");
+      tokens.push({ text: input.slice(i + 1, end), quoted: true });
+      i = end + 1;
+      continue;
+    }
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    tokens.push({ text: input.slice(i, end), quoted: false });
+    i = end;
+  }
+  return tokens;
+}
+
+/**
+ * Split a command message into arguments, honoring quoted strings and the
+ * flags in `spec`. The leading `/command` is dropped. Negative numbers such
+ * as `-10` are plain arguments; only `--name` is a flag.
+ */
+export function parseArgs(text: string, spec: ArgSpec = {}): ParsedArgs {
+  const body = text.replace(/^\/\S+/, "");
+  const tokens = tokenize(body);
+  const parsed: ParsedArgs = { args: [], flags: {}, options: {} };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const { text: token, quoted } = tokens[i];
+    if (quoted || !token.startsWith("--") || token.length === 2) {
+      parsed.args.push(token);
+      continue;
+    }
+
+    const [name, inline] = token.slice(2).split(/=([\s\S]*)/);
+    if (spec.options?.includes(name)) {
+      const value = inline ?? tokens[++i]?.text;
+      if (value === undefined || value === "") {
+        throw new ArgParseError(`--${name} 後面要接東西`);
+      }
+      parsed.options[name] = value;
+    } else if (spec.flags?.includes(name) && inline === undefined) {
+      parsed.flags[name] = true;
+    } else {
+      throw new ArgParseError(`偶不認識 --${name}`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Parse a command's arguments, replying with the usage text when they
+ * cannot be parsed. Return null in that case.
+ */
+export async function parseCommandArgs(
+  ctx: Context,
+  usage: string,
+  spec: ArgSpec = {}
+): Promise<ParsedArgs | null> {
+  try {
+    return parseArgs(ctx.message?.text ?? "", spec);
+  } catch (e) {
+    if (!(e instanceof ArgParseError)) throw e;
+    await safeReply(ctx, `🗣️ 告老師喔！${e.message}，你很兩光欸。\n${usage}`, {
+      parse_mode: "Markdown",
+      reply_to_message_id: ctx.message?.message_id,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+import JsonFileDb from "./db.js";
+
+/**
+ * A self-updating queue board message. Stored so updates resume after a
+ * restart.
+ */
+export interface Board {
+  chat_id: number;
+  message_id: number;
+  shop: string;
+  // Who opened it; missing on boards from before
+  user_id?: number;
+  created_at: number;
+  expires_at: number;
+  pinned: boolean;
+  last_text?: string;
+}
+
+// One board per chat, keyed by chat id
+const boardDb = new JsonFileDb<Record<string, Board>>("boards.json");
+
+export function getBoard(chatId: number): Board | undefined {
+  return boardDb.get(String(chatId));
+}
+
+export function getAllBoards(): Board[] {
+  return Object.values(boardDb.all());
+}
+
+export function saveBoard(board: Board): void {
+  boardDb.set(String(board.chat_id), board);
+}
+
+export function removeBoard(chatId: number): boolean {
+  return boardDb.delete(String(chatId));
+}
@@ -0,0 +1,40 @@
+import JsonFileDb from "./db.js";
+import { DEFAULT_SHOP, isKnownShop } from "./queueSource.js";
+
+export interface ChatSettings {
+  // Default early-warning distance for new subscriptions (0 = off)
+  default_lead?: number;
+  // Queue source used when a command names no shop
+  default_shop?: string;
+  // How long new subscriptions last before expiring
+  sub_lifetime_hours?: number;
+  // Persona id from prompts/ used for AI replies
+  persona?: string;
+}
+
+// Per-chat preferences, keyed by chat id
+const settingsDb = new JsonFileDb("chatSettings.json");
+
+export function getChatSettings(chatId: number): ChatSettings {
+  return (settingsDb.get(String(chatId)) as ChatSettings | undefined) ?? {};
+}
+
+/**
+ * Merge-update the settings of a chat and return the result.
+ */
+export function updateChatSettings(
+  chatId: number,
+  patch: Partial<ChatSettings>
+): ChatSettings {
+  const merged = { ...getChatSettings(chatId), ...patch };
+  settingsDb.set(String(chatId), merged);
+  return merged;
+}
+
+/**
+ * The chat's default queue source, falling back to the built-in shop.
+ */
+export function getChatShop(chatId: number): string {
+  const shop = getChatSettings(chatId).default_shop;
+  return shop && isKnownShop(shop) ? shop : DEFAULT_SHOP;
+}
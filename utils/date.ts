@@ -0,0 +1,55 @@
+/**
+ * Format a timestamp as a Taipei (UTC+8) calendar day, YYYY-MM-DD.
+ */
+export function toTaipeiDate(time: number | Date = Date.now()): string {
+  return new Date(time).toLocaleDateString("sv-SE", {
+    timeZone: "Asia/Taipei",
+  });
+}
+
+export function getTodayDate(): string {
+  // Use Taipei timezone (UTC+8)
+  return toTaipeiDate();
+}
+
+/**
+ * Format a timestamp as a Taipei wall-clock time, HH:mm.
+ */
+export function formatTaipeiTime(time: number | Date): string {
+  return new Date(time).toLocaleTimeString("en-GB", {
+    timeZone: "Asia/Taipei",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Timestamp of a Taipei wall-clock time ("HH:mm") on the given Taipei day.
+ */
+export function taipeiTimeOn(date: string, time: string): number {
+  // Taipei has no DST, so a fixed offset is exact
+  return Date.parse(`${date}T${time}:00+08:00`);
+}
+
+/**
+ * Parse a deadline: a Taipei wall-clock time such as "11:30" or "@11:30"
+ * (its next occurrence), or a duration such as "20m", "1h" or "1h30m".
+ * Return null if invalid or more than a day away.
+ */
+export function parseDeadline(arg: string, now = Date.now()): number | null {
+  const clock = arg.match(/^@?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const [hours, minutes] = [Number(clock[1]), Number(clock[2])];
+    if (hours > 23 || minutes > 59) return null;
+    const time = `${String(hours).padStart(2, "0")}:${clock[2]}`;
+    const today = taipeiTimeOn(toTaipeiDate(now), time);
+    return today > now ? today : today + 24 * 60 * 60 * 1000;
+  }
+
+  const duration = arg.match(/^(?:(\d+)h)?(?:(\d+)m)?$/);
+  if (!duration || (!duration[1] && !duration[2])) return null;
+  const ms =
+    (Number(duration[1] ?? 0) * 60 + Number(duration[2] ?? 0)) * 60 * 1000;
+  if (ms === 0 || ms > 24 * 60 * 60 * 1000) return null;
+  return now + ms;
+}
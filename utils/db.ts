@@ -10,6 +10,9 @@ if (!fs.existsSync(dataDir)) {
 class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
   private filePath: string;
   private _data: T;
+  // mtime and size of the file when last read or written; unchanged means
+  // the parsed copy is still current
+  private _stamp: string | null = null;
 
   constructor(fileName: string) {
     this.filePath = path.join(dataDir, fileName);
@@ -17,9 +20,20 @@ class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
     this._readData();
   }
 
+  private _fileStamp(): string | null {
+    try {
+      const stat = fs.statSync(this.filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
   private _readData(): void {
+    const stamp = this._fileStamp();
+    if (stamp !== null && stamp === this._stamp) return;
     try {
-      if (fs.existsSync(this.filePath)) {
+      if (stamp !== null) {
         const jsonString = fs.readFileSync(this.filePath, "utf8");
         this._data = JSON.parse(jsonString);
       } else {
@@ -29,6 +43,7 @@ class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
       console.error(`Error reading or parsing ${this.filePath}`, e);
       this._data = {} as T;
     }
+    this._stamp = stamp;
   }
 
   private _writeData(): void {
@@ -36,6 +51,7 @@ class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
     try {
       fs.writeFileSync(tempFilePath, JSON.stringify(this._data), "utf8");
       fs.renameSync(tempFilePath, this.filePath);
+      this._stamp = this._fileStamp();
     } catch (e) {
       console.error(`Error writing to ${this.filePath}`, e);
       if (fs.existsSync(tempFilePath)) {
@@ -48,13 +64,15 @@ class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
     }
   }
 
+  // Values go in and out as copies, so callers changing what they got
+  // cannot touch the cached data without going through set()
   get<K extends keyof T>(key: K): T[K] {
     this._readData();
-    return this._data[key];
+    return structuredClone(this._data[key]);
   }
 
   set<K extends keyof T>(key: K, value: T[K]): void {
-    this._data[key] = value;
+    this._data[key] = structuredClone(value);
     this._writeData();
   }
 
@@ -75,7 +93,7 @@ class JsonFileDb<T extends Record<string, unknown> = Record<string, unknown>> {
 
   all(): T {
     this._readData();
-    return this._data;
+    return structuredClone(this._data);
   }
 }
 
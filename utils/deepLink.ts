@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import JsonFileDb from "./db.js";
+
+/**
+ * What a group → DM deep link asks the bot to do. Kept server-side; the link
+ * itself only carries an opaque token.
+ */
+export interface DeepLinkPayload {
+  action: "subscribe" | "unsubscribe";
+  user_id: number; // who the link was issued to
+  chat_id: number; // group the action applies to
+  shop?: string;
+  target_number?: number;
+  lead?: number;
+  user_message_id?: number;
+  group_message_id?: number;
+}
+
+interface StoredDeepLink extends DeepLinkPayload {
+  expires_at: number;
+}
+
+export type ReadDeepLinkResult =
+  | { ok: true; payload: DeepLinkPayload }
+  | { ok: false; reason: "invalid" | "expired" | "wrong_user" };
+
+const linkDb = new JsonFileDb<Record<string, StoredDeepLink>>("deepLinks.json");
+
+export const DEEP_LINK_TTL_MS = 60 * 60 * 1000;
+
+function pruneExpired(now: number): void {
+  for (const [token, link] of Object.entries(linkDb.all())) {
+    if (link.expires_at <= now) linkDb.delete(token);
+  }
+}
+
+/**
+ * Store a payload and return a token for `?start=`. 16 base64url characters,
+ * well within Telegram's 64-character start parameter limit.
+ */
+export function createDeepLinkToken(
+  payload: DeepLinkPayload,
+  ttlMs: number = DEEP_LINK_TTL_MS
+): string {
+  const now = Date.now();
+  pruneExpired(now);
+  const token = crypto.randomBytes(12).toString("base64url");
+  linkDb.set(token, { ...payload, expires_at: now + ttlMs });
+  return token;
+}
+
+/**
+ * Look up a token for the given user without using it up. Tokens are only
+ * valid for the user they were issued to.
+ */
+export function readDeepLinkToken(
+  token: string,
+  userId: number
+): ReadDeepLinkResult {
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(token)) {
+    return { ok: false, reason: "invalid" };
+  }
+  const link = linkDb.get(token);
+  if (!link) return { ok: false, reason: "invalid" };
+  if (link.expires_at <= Date.now()) {
+    linkDb.delete(token);
+    return { ok: false, reason: "expired" };
+  }
+  if (link.user_id !== userId) return { ok: false, reason: "wrong_user" };
+
+  const { expires_at, ...payload } = link;
+  return { ok: true, payload };
+}
+
+/**
+ * Use up a token once its action went through, so a failed attempt (e.g.
+ * the queue number could not be fetched) can be retried with the same link.
+ */
+export function consumeDeepLinkToken(token: string): void {
+  linkDb.delete(token);
+}
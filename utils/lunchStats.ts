@@ -0,0 +1,115 @@
+import { getVoters } from "./pollService.js";
+import { getAllPollSummaries } from "./pollArchive.js";
+
+export interface MemberAttendance {
+  user_id: string;
+  name: string;
+  attended: number; // polls where they picked something other than the opt-out
+  answered: number; // polls they answered at all
+  rate: number; // attended / number of polls in the period
+  longestStreak: number; // most consecutive polls attended
+}
+
+export interface LunchStats {
+  since: number | null; // null for all time
+  polls: number;
+  averageHeadcount: number;
+  topItem: { label: string; total: number } | null;
+  members: MemberAttendance[]; // highest attendance first
+}
+
+/**
+ * Attendance and order statistics of a chat's polls since the given time.
+ * Return null when the chat had no polls in that period.
+ */
+export function summarizeLunches(
+  chatId: number,
+  since: number | null = null
+): LunchStats | null {
+  // Archived polls only survive as summaries, so work from those throughout
+  const polls = getAllPollSummaries()
+    .filter(
+      (p) =>
+        p.chat_id === chatId &&
+        (since === null || p.created_at >= since) &&
+        // Custom polls ask "where", not "who's coming"
+        p.kind !== "custom"
+    )
+    .sort((a, b) => a.created_at - b.created_at);
+  if (polls.length === 0) return null;
+
+  const voters = getVoters();
+  const itemTotals = new Map<string, number>();
+  const members = new Map<string, MemberAttendance & { streak: number }>();
+  let headcount = 0;
+
+  for (const poll of polls) {
+    headcount += poll.headcount;
+    for (const [label, total] of Object.entries(poll.items ?? {})) {
+      itemTotals.set(label, (itemTotals.get(label) ?? 0) + total);
+    }
+
+    for (const userId of Object.keys(poll.answers)) {
+      if (!members.has(userId)) {
+        members.set(userId, {
+          user_id: userId,
+          name: voters[userId]?.first_name ?? userId,
+          attended: 0,
+          answered: 0,
+          rate: 0,
+          longestStreak: 0,
+          streak: 0,
+        });
+      }
+      members.get(userId).answered++;
+    }
+
+    // Skipping a poll, by opting out or not answering, breaks the streak
+    for (const member of members.values()) {
+      if (poll.answers[member.user_id]) {
+        member.attended++;
+        member.streak++;
+        member.longestStreak = Math.max(member.longestStreak, member.streak);
+      } else {
+        member.streak = 0;
+      }
+    }
+  }
+
+  let topItem: LunchStats["topItem"] = null;
+  for (const [label, total] of itemTotals) {
+    if (total > 0 && (!topItem || total > topItem.total)) {
+      topItem = { label, total };
+    }
+  }
+
+  return {
+    since,
+    polls: polls.length,
+    averageHeadcount: headcount / polls.length,
+    topItem,
+    members: Array.from(members.values())
+      .map(({ streak, ...member }) => ({
+        ...member,
+        rate: member.attended / polls.length,
+      }))
+      .sort((a, b) => b.rate - a.rate || b.longestStreak - a.longestStreak),
+  };
+}
+
+/**
+ * Parse a period such as "7d", "30d" or "all". Return the start timestamp,
+ * null for all time, or undefined if invalid.
+ */
+export function parseStatsPeriod(
+  arg: string | undefined,
+  now = Date.now()
+): number | null | undefined {
+  if (arg === undefined) return now - 30 * 24 * 60 * 60 * 1000;
+  if (arg === "all") return null;
+  const match = arg.match(/^(\d+)d$/);
+  if (!match) return undefined;
+  const days = Number(match[1]);
+  if (days < 1 || days > 365) return undefined;
+  return now - days * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,142 @@
+export interface SearchableMemory {
+  id: string;
+  content: string;
+}
+
+export interface RankedMemory<T extends SearchableMemory> {
+  memory: T;
+  score: number;
+}
+
+/**
+ * Orders memories by relevance to a query. Memories that do not match at all
+ * are left out.
+ */
+export interface MemoryRanker {
+  rank<T extends SearchableMemory>(
+    query: string,
+    memories: T[]
+  ): Promise<RankedMemory<T>[]>;
+}
+
+/**
+ * Split text into search terms: latin words and numbers as they are, CJK
+ * runs as single characters plus bigrams since Chinese has no spaces.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const pattern = /[a-z0-9]+|[㐀-鿿豈-﫿]+/g;
+  for (const [run] of text.toLowerCase().matchAll(pattern)) {
+    if (/^[a-z0-9]/.test(run)) {
+      terms.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    terms.push(...chars);
+    for (let i = 0; i < chars.length - 1; i++) {
+      terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return terms;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export class Bm25Ranker implements MemoryRanker {
+  async rank<T extends SearchableMemory>(
+    query: string,
+    memories: T[]
+  ): Promise<RankedMemory<T>[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || memories.length === 0) return [];
+
+    const docs = memories.map((memory) => tokenize(memory.content));
+    const avgLength =
+      docs.reduce((sum, terms) => sum + terms.length, 0) / docs.length || 1;
+    const docFreq = new Map<string, number>();
+    for (const terms of docs) {
+      for (const term of new Set(terms)) {
+        docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+      }
+    }
+
+    return memories
+      .map((memory, i) => {
+        const terms = docs[i];
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = terms.filter((t) => t === term).length;
+          if (tf === 0) continue;
+          const df = docFreq.get(term) ?? 0;
+          const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+          score +=
+            (idf * tf * (K1 + 1)) /
+            (tf + K1 * (1 - B + (B * terms.length) / avgLength));
+        }
+        return { memory, score };
+      })
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * Ranks by cosine similarity of embeddings. Memory embeddings are cached by
+ * id and content, so edited memories are embedded again; when embedding
+ * fails the fallback ranker is used instead.
+ */
+export class EmbeddingRanker implements MemoryRanker {
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    private embed: (texts: string[]) => Promise<number[][]>,
+    private fallback: MemoryRanker = new Bm25Ranker(),
+    // Similarity below this does not count as a match
+    private minScore = 0.3
+  ) {}
+
+  async rank<T extends SearchableMemory>(
+    query: string,
+    memories: T[]
+  ): Promise<RankedMemory<T>[]> {
+    if (!query.trim() || memories.length === 0) return [];
+    try {
+      const missing = memories.filter((m) => !this.cache.has(cacheKey(m)));
+      const vectors = await this.embed([
+        query,
+        ...missing.map((m) => m.content),
+      ]);
+      missing.forEach((m, i) => this.cache.set(cacheKey(m), vectors[i + 1]));
+      const queryVector = vectors[0];
+
+      return memories
+        .map((memory) => ({
+          memory,
+          score: cosine(queryVector, this.cache.get(cacheKey(memory))),
+        }))
+        .filter((r) => r.score >= this.minScore)
+        .sort((a, b) => b.score - a.score);
+    } catch (e) {
+      console.error("Embedding search failed, falling back:", e);
+      return this.fallback.rank(query, memories);
+    }
+  }
+}
+
+function cacheKey(memory: SearchableMemory): string {
+  return `${memory.id}:${memory.content}`;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  emoji: string;
+  price: number; // NT$ per bowl
+  // Quantities offered as poll options, e.g. [1, 2] → "+1" and "+2"
+  quantities: number[];
+}
+
+export interface Menu {
+  id: string; // registry key, used in `/voteramen <menu>`
+  name: string;
+  title?: string; // default poll question
+  items: MenuItem[];
+}
+
+/**
+ * One poll option generated from a menu.
+ */
+export interface MenuOption {
+  text: string;
+  item: MenuItem;
+  quantity: number;
+}
+
+export const DEFAULT_MENU = "ramen";
+// Telegram polls take at most 10 options, one of which is the opt-out
+export const MAX_MENU_OPTIONS = 9;
+const MENUS_FILE = "./data/menus.json";
+
+const registry = new Map<string, Menu>();
+
+/**
+ * Expand a menu into poll options, item by item and quantity by quantity.
+ */
+export function getMenuOptions(menu: Menu): MenuOption[] {
+  return menu.items.flatMap((item) =>
+    item.quantities.map((quantity) => ({
+      text: `+${quantity} | ${item.emoji} ${item.name}`,
+      item,
+      quantity,
+    }))
+  );
+}
+
+/**
+ * Display label of an item, e.g. "🥚 加蛋".
+ */
+export function itemLabel(item: MenuItem): string {
+  return `${item.emoji} ${item.name}`;
+}
+
+export function registerMenu(menu: Menu): void {
+  if (!/^[a-z0-9-]{1,16}$/.test(menu.id)) {
+    throw new Error(`Invalid menu id: ${menu.id}`);
+  }
+  if (menu.items.length === 0) {
+    throw new Error(`Menu ${menu.id} has no items`);
+  }
+  for (const item of menu.items) {
+    if (
+      item.quantities.length === 0 ||
+      item.quantities.some((q) => !Number.isInteger(q) || q < 1)
+    ) {
+      throw new Error(`Invalid quantities for ${menu.id}/${item.id}`);
+    }
+  }
+  const options = getMenuOptions(menu);
+  if (options.length > MAX_MENU_OPTIONS) {
+    throw new Error(
+      `Menu ${menu.id} has ${options.length} options, at most ${MAX_MENU_OPTIONS} fit in a poll`
+    );
+  }
+  if (options.some((o) => o.text.length > 100)) {
+    throw new Error(`Menu ${menu.id} has an option longer than 100 characters`);
+  }
+  registry.set(menu.id, menu);
+}
+
+export function getMenu(id: string = DEFAULT_MENU): Menu | undefined {
+  return registry.get(id);
+}
+
+export function listMenus(): Menu[] {
+  return Array.from(registry.values());
+}
+
+export function isKnownMenu(id: string): boolean {
+  return registry.has(id);
+}
+
+// ----------------- Built-in menu -----------------
+registerMenu({
+  id: DEFAULT_MENU,
+  name: "五之神",
+  title: "限定拉麵，點餐！🍜",
+  items: [
+    { id: "plain", name: "單點", emoji: "🍜", price: 280, quantities: [1, 2] },
+    { id: "egg", name: "加蛋", emoji: "🥚", price: 310, quantities: [1, 2] },
+    { id: "deluxe", name: "超值", emoji: "✨", price: 360, quantities: [1, 2] },
+  ],
+});
+
+// More menus can be listed in data/menus.json
+if (fs.existsSync(MENUS_FILE)) {
+  let menus: Menu[] = [];
+  try {
+    menus = JSON.parse(fs.readFileSync(MENUS_FILE, "utf8"));
+  } catch (e) {
+    console.error(`Error reading ${MENUS_FILE}`, e);
+  }
+  // Skip only the broken menus, not the whole file
+  for (const menu of menus) {
+    try {
+      registerMenu(menu);
+    } catch (e) {
+      console.error(`Skipping menu in ${MENUS_FILE}:`, e.message);
+    }
+  }
+}
@@ -1,37 +1,143 @@
-let numberCache: { value: number | null; timestamp: number } = {
-  value: null,
-  timestamp: 0,
-};
+import { recordNumber } from "./numberHistory.js";
+import { DEFAULT_SHOP, QueueSource, getQueueSource } from "./queueSource.js";
+import { getTodayDate, taipeiTimeOn, toTaipeiDate } from "./date.js";
 
 /**
- * Retrieve the latest calling number from the remote endpoint.
- * The result is cached for 1 minute to reduce network traffic.
+ * - ok: fresh data from a reachable source
+ * - degraded: the last fetches failed, showing the last known number
+ * - stale: fetches work but the shop has not updated the number for a while
+ * - closed: outside opening hours, or nothing has been called today
  */
-export async function getCurrentNumber(): Promise<number | null> {
-  const now = Date.now();
-  if (now - numberCache.timestamp < 60 * 1000 && numberCache.value !== null) {
-    return numberCache.value;
-  }
+export type QueueHealth = "ok" | "degraded" | "stale" | "closed";
 
-  try {
-    const res = await fetch(
-      "https://dxc.tagfans.com/mighty?_field%5B%5D=*&%24gid=10265&%24description=anouncingNumbers"
-    )
-      .then((x) => x.json())
-      .then((x) => x.sort((a: any, b: any) => b.UpdDate - a.UpdDate));
+export interface QueueStatus {
+  shopId: string;
+  number: number | null; // last known number
+  updatedAt: number | null; // when the shop last changed the number
+  fetchedAt: number | null; // last successful fetch
+  failures: number; // consecutive failed fetches
+  health: QueueHealth;
+}
 
-    if (!res || res.length === 0) {
-      return null;
-    }
+interface PollState {
+  number: number | null;
+  updatedAt: number | null;
+  fetchedAt: number | null;
+  failures: number;
+  nextAttemptAt: number;
+}
+
+// Numbers untouched this long during opening hours are considered stale
+export const STALE_AFTER_MS = 20 * 60 * 1000;
+// Upper bound for the retry delay after repeated failures
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+// A fetch taking longer than this is aborted and counts as a failure
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+const pollStates = new Map<string, PollState>();
+
+/**
+ * Whether a shop is within its opening hours right now.
+ */
+function isWithinOpeningHours(source: QueueSource, now: number): boolean {
+  const today = getTodayDate();
+  return (
+    now >= taipeiTimeOn(today, source.openingTime) &&
+    now <= taipeiTimeOn(today, source.closingTime)
+  );
+}
+
+function getHealth(
+  source: QueueSource,
+  state: PollState,
+  now: number
+): QueueHealth {
+  const fresh =
+    state.updatedAt !== null && now - state.updatedAt <= STALE_AFTER_MS;
+  // A shop still calling numbers after hours is open, whatever the schedule
+  if (!fresh && !isWithinOpeningHours(source, now)) return "closed";
+  if (state.updatedAt !== null) {
+    // Nothing called yet today – the number is from a previous day
+    if (toTaipeiDate(state.updatedAt) !== toTaipeiDate(now)) return "closed";
+    if (!fresh) return "stale";
+  }
+  if (state.failures > 0 || state.number === null) return "degraded";
+  return "ok";
+}
 
-    const currentNumber = JSON.parse(res[0].detail_json).selections["目前號碼"];
-    numberCache = {
-      value: currentNumber,
-      timestamp: now,
-    };
-    return currentNumber;
-  } catch (e) {
-    console.error("Failed to get current number:", e);
+/**
+ * Poll a shop's queue source and report its status. Fetches are cached for
+ * the source's TTL; after a failure or a timeout the last known number is
+ * kept and retries back off exponentially up to 15 minutes. Every change is
+ * appended to the number history.
+ */
+export async function pollQueue(
+  shopId: string = DEFAULT_SHOP
+): Promise<QueueStatus | null> {
+  const source = getQueueSource(shopId);
+  if (!source) {
+    console.error(`Unknown queue source: ${shopId}`);
     return null;
   }
+
+  const now = Date.now();
+  const state: PollState = pollStates.get(shopId) ?? {
+    number: null,
+    updatedAt: null,
+    fetchedAt: null,
+    failures: 0,
+    nextAttemptAt: 0,
+  };
+
+  if (now >= state.nextAttemptAt) {
+    try {
+      const body = await fetch(source.endpoint, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      }).then((x) => x.json());
+      const reading = source.parse(body);
+      if (reading === null) {
+        throw new Error("No number in response");
+      }
+      state.number = reading.number;
+      state.updatedAt = reading.updatedAt;
+      state.fetchedAt = now;
+      state.failures = 0;
+      state.nextAttemptAt = now + source.cacheTtlMs;
+      recordNumber(shopId, reading.number, now);
+    } catch (e) {
+      state.failures++;
+      const delay = Math.min(
+        source.cacheTtlMs * 2 ** (state.failures - 1),
+        MAX_BACKOFF_MS
+      );
+      state.nextAttemptAt = now + delay;
+      console.error(
+        `Failed to get current number of ${shopId} (attempt ${
+          state.failures
+        }, retry in ${Math.round(delay / 1000)}s):`,
+        e
+      );
+    }
+    pollStates.set(shopId, state);
+  }
+
+  return {
+    shopId,
+    number: state.number,
+    updatedAt: state.updatedAt,
+    fetchedAt: state.fetchedAt,
+    failures: state.failures,
+    health: getHealth(source, state, now),
+  };
+}
+
+/**
+ * Retrieve the latest known calling number of a shop, or null if it has
+ * never been fetched successfully.
+ */
+export async function getCurrentNumber(
+  shopId: string = DEFAULT_SHOP
+): Promise<number | null> {
+  const status = await pollQueue(shopId);
+  return status?.number ?? null;
 }
@@ -0,0 +1,180 @@
+import JsonFileDb from "./db.js";
+import { toTaipeiDate } from "./date.js";
+
+export interface NumberRecord {
+  number: number;
+  at: number; // when the change was observed (ms)
+}
+
+// Observed calling numbers per shop, keyed by Taipei day (YYYY-MM-DD)
+const historyDb = new JsonFileDb<
+  Record<string, Record<string, NumberRecord[]>>
+>("numberHistory.json");
+
+// Days of history kept on disk
+const RETENTION_DAYS = 90;
+// Window used for the rolling calling rate
+export const RATE_WINDOW_MS = 30 * 60 * 1000;
+
+export function getHistory(shopId: string, date: string): NumberRecord[] {
+  return historyDb.get(shopId)?.[date] ?? [];
+}
+
+/**
+ * Append an observed number if it differs from the last one recorded today.
+ */
+export function recordNumber(
+  shopId: string,
+  number: number,
+  at: number = Date.now()
+): void {
+  const date = toTaipeiDate(at);
+  const days = historyDb.get(shopId) ?? {};
+  const records = days[date] ?? [];
+  const last = records[records.length - 1];
+  if (last && last.number === number) return;
+
+  if (records.length === 0) pruneHistory(days, at);
+  records.push({ number, at });
+  days[date] = records;
+  historyDb.set(shopId, days);
+}
+
+function pruneHistory(days: Record<string, NumberRecord[]>, now: number): void {
+  const cutoff = toTaipeiDate(now - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  for (const date of Object.keys(days)) {
+    if (date < cutoff) delete days[date];
+  }
+}
+
+/**
+ * Rolling calling rate in numbers per minute, or null when there is not enough
+ * data (fewer than two changes today).
+ */
+export function getCallingRate(
+  shopId: string,
+  now: number = Date.now(),
+  windowMs: number = RATE_WINDOW_MS
+): number | null {
+  const records = getHistory(shopId, toTaipeiDate(now));
+  if (records.length < 2) return null;
+
+  let recent = records.filter((r) => now - r.at <= windowMs);
+  // Fall back to the whole day when the window is too thin
+  if (recent.length < 2) recent = records;
+
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  // Measure up to now so a stalled queue slows the rate down
+  const minutes = (now - first.at) / 60000;
+  if (minutes <= 0 || last.number <= first.number) return null;
+  return (last.number - first.number) / minutes;
+}
+
+/**
+ * Estimated minutes until `target` is called, or null when unknown.
+ */
+export function estimateWaitMinutes(
+  shopId: string,
+  target: number,
+  current: number,
+  now: number = Date.now()
+): number | null {
+  if (target <= current) return 0;
+  const rate = getCallingRate(shopId, now);
+  if (!rate) return null;
+  return Math.round((target - current) / rate);
+}
+
+/**
+ * Human readable duration, e.g. "1 小時 5 分鐘".
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  if (hours > 0) return `${hours} 小時 ${mins} 分鐘`;
+  return `${Math.max(mins, 1)} 分鐘`;
+}
+
+export interface DaySummary {
+  shopId: string;
+  date: string;
+  openedAt: number; // first observed change
+  lastAt: number; // last observed change
+  firstNumber: number;
+  lastNumber: number;
+  peakRate: number; // numbers per minute in the busiest bucket
+  peakAt: number; // start of the busiest bucket
+  minutesPerNumber: number | null;
+  sparkline: string;
+}
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const SPARK_WIDTH = 24;
+// Bucket size used to find the peak calling rate
+const PEAK_BUCKET_MS = 15 * 60 * 1000;
+
+// Last recorded number at or before `at`
+function numberAt(records: NumberRecord[], at: number): number {
+  let value = records[0].number;
+  for (const r of records) {
+    if (r.at > at) break;
+    value = r.number;
+  }
+  return value;
+}
+
+function buildSparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  return values
+    .map(
+      (v) =>
+        SPARK_CHARS[Math.round(((v - min) / span) * (SPARK_CHARS.length - 1))]
+    )
+    .join("");
+}
+
+/**
+ * Summarise one Taipei day of recorded numbers, or null if nothing was seen.
+ */
+export function summarizeDay(shopId: string, date: string): DaySummary | null {
+  const records = getHistory(shopId, date);
+  if (records.length === 0) return null;
+
+  const first = records[0];
+  const last = records[records.length - 1];
+  const called = last.number - first.number;
+
+  let peakRate = 0;
+  let peakAt = first.at;
+  for (let start = first.at; start < last.at; start += PEAK_BUCKET_MS) {
+    const delta =
+      numberAt(records, start + PEAK_BUCKET_MS) - numberAt(records, start);
+    const rate = delta / (PEAK_BUCKET_MS / 60000);
+    if (rate > peakRate) {
+      peakRate = rate;
+      peakAt = start;
+    }
+  }
+
+  const samples: number[] = [];
+  const step = (last.at - first.at) / (SPARK_WIDTH - 1);
+  for (let i = 0; i < SPARK_WIDTH; i++) {
+    samples.push(numberAt(records, first.at + step * i));
+  }
+
+  return {
+    shopId,
+    date,
+    openedAt: first.at,
+    lastAt: last.at,
+    firstNumber: first.number,
+    lastNumber: last.number,
+    peakRate,
+    peakAt,
+    minutesPerNumber: called > 0 ? (last.at - first.at) / 60000 / called : null,
+    sparkline: records.length > 1 ? buildSparkline(samples) : "",
+  };
+}
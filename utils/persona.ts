@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { getChatSettings } from "./chatSettings.js";
+
+export interface Persona {
+  id: string; // file name without `.md`
+  name: string;
+  description: string;
+  temperature?: number;
+  // Tool names the persona may call; missing means every tool
+  tools?: string[];
+  prompt: string;
+}
+
+export const DEFAULT_PERSONA = "rongou-sj";
+// Used by the tarot tool whatever the chat's persona
+export const TAROT_PERSONA = "tarot-sj";
+const PROMPTS_DIR = "./prompts";
+
+// Stands in for the default persona when its prompt file is missing or has
+// never parsed, so the bot keeps talking
+const BUILTIN_PERSONA: Persona = {
+  id: DEFAULT_PERSONA,
+  name: "榮勾斯揪 👑",
+  description: "五之神的拉麵之王",
+  prompt:
+    "你將在 Telegram 中扮演榮勾斯揪，熊界最高地位的國王熊熊，名言是「怕的是他」。請使用純文字輸出訊息，不要使用 markdown 格式，回覆內容盡量簡短精煉，可以有點 Gen-Z 風格，偶爾帶點幽默感。",
+};
+
+let personas = new Map<string, Persona>();
+// File names with their mtimes when last loaded; unchanged means no reload
+let loadedStamp = "";
+
+/**
+ * Split `---` front-matter of `key: value` lines from the prompt body. Lists
+ * are written as `[a, b]`.
+ */
+function parseFrontMatter(source: string): {
+  meta: Record<string, string | string[]>;
+  body: string;
+} {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { meta: {}, body: source };
+  const meta: Record<string, string | string[]> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const kv = line.match(/^([a-z_]+):\s*(.*)$/);
+    if (!kv) continue;
+    const value = kv[2].trim();
+    meta[kv[1]] = /^\[.*\]$/.test(value)
+      ? value
+          .slice(1, -1)
+          .split(",")
+          .map((v) => v.trim())
+          .filter(Boolean)
+      : value.replace(/^["'](.*)["']$/, "$1");
+  }
+  return { meta, body: source.slice(match[0].length) };
+}
+
+function parsePersona(id: string, source: string): Persona {
+  const { meta, body } = parseFrontMatter(source);
+  const str = (key: string) =>
+    typeof meta[key] === "string" ? (meta[key] as string) : undefined;
+  const temperature =
+    str("temperature") === undefined ? undefined : Number(str("temperature"));
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new Error(`Invalid temperature in ${id}: ${str("temperature")}`);
+  }
+  return {
+    id,
+    name: str("name") || id,
+    description: str("description") ?? "",
+    temperature,
+    tools: Array.isArray(meta.tools) ? meta.tools : undefined,
+    prompt: body.trim(),
+  };
+}
+
+/**
+ * Re-read prompts/ when a file was added, removed or edited since the last
+ * load, so prompt changes apply without a restart.
+ */
+function loadPersonas(): void {
+  let files: string[];
+  try {
+    files = fs
+      .readdirSync(PROMPTS_DIR)
+      .filter((f) => f.endsWith(".md"))
+      .sort();
+  } catch (e) {
+    console.error(`Error reading ${PROMPTS_DIR}`, e);
+    return;
+  }
+  const mtimes = new Map<string, number>();
+  for (const file of files) {
+    try {
+      mtimes.set(file, fs.statSync(path.join(PROMPTS_DIR, file)).mtimeMs);
+    } catch {
+      // Deleted or renamed since readdir; skip it
+    }
+  }
+  files = files.filter((f) => mtimes.has(f));
+  const stamp = files.map((f) => `${f}:${mtimes.get(f)}`).join("|");
+  if (stamp === loadedStamp) return;
+
+  const loaded = new Map<string, Persona>();
+  for (const file of files) {
+    const id = file.slice(0, -3);
+    try {
+      const source = fs.readFileSync(path.join(PROMPTS_DIR, file), "utf8");
+      loaded.set(id, parsePersona(id, source));
+    } catch (e) {
+      // Keep the last good version of a prompt that no longer parses
+      console.error(`Skipping persona ${file}:`, e.message);
+      if (personas.has(id)) loaded.set(id, personas.get(id));
+    }
+  }
+  personas = loaded;
+  loadedStamp = stamp;
+}
+
+export function getPersona(id: string = DEFAULT_PERSONA): Persona | undefined {
+  loadPersonas();
+  return personas.get(id);
+}
+
+export function listPersonas(): Persona[] {
+  loadPersonas();
+  return Array.from(personas.values());
+}
+
+/**
+ * The chat's persona, falling back to the default one, or to a built-in
+ * prompt when prompts/ has no usable default.
+ */
+export function getChatPersona(chatId: number): Persona {
+  const id = getChatSettings(chatId).persona;
+  return (
+    (id && getPersona(id)) || getPersona(DEFAULT_PERSONA) || BUILTIN_PERSONA
+  );
+}
+
+/**
+ * Keep only the tools the persona may call.
+ */
+export function filterPersonaTools<T extends Record<string, unknown>>(
+  persona: Persona,
+  tools: T
+): Partial<T> {
+  if (!persona.tools) return tools;
+  return Object.fromEntries(
+    Object.entries(tools).filter(([name]) => persona.tools.includes(name))
+  ) as Partial<T>;
+}
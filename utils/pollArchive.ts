@@ -0,0 +1,130 @@
+import JsonFileDb from "./db.js";
+import { toTaipeiDate } from "./date.js";
+import {
+  PollKind,
+  PollRecord,
+  breakdownVotes,
+  countVotes,
+  getAllPolls,
+  getPollSlots,
+  getPollStrategy,
+  pollTime,
+  voteData,
+} from "./pollService.js";
+
+// Closed polls older than this move out of votes.json
+export const POLL_RETENTION_DAYS = 90;
+
+/**
+ * What statistics need from a poll, kept after the poll itself is archived.
+ */
+export interface PollSummary {
+  chat_id: number;
+  created_at: number;
+  kind: PollKind;
+  headcount: number;
+  // Voter id → whether they picked something other than the opt-out
+  answers: Record<string, boolean>;
+  // Label → ordered quantity; only for polls with menu items
+  items?: Record<string, number>;
+}
+
+export interface PruneResult {
+  archived: number;
+  months: string[];
+  bytes: number; // size of the archived records in votes.json
+}
+
+// Aggregates of archived polls under "polls", keyed by poll id
+const statsDb = new JsonFileDb<{ polls: Record<string, PollSummary> }>(
+  "pollStats.json"
+);
+
+function getArchivedSummaries(): Record<string, PollSummary> {
+  return statsDb.get("polls") ?? {};
+}
+
+export function summarizePoll(record: PollRecord): PollSummary {
+  const slots = getPollSlots(record);
+  const votes = record.votes ?? {};
+  const answers: Record<string, boolean> = {};
+  for (const [userId, optionIds] of Object.entries(votes)) {
+    if (optionIds.length > 0) {
+      answers[userId] = optionIds.some((id) => slots[id]);
+    }
+  }
+  const summary: PollSummary = {
+    chat_id: record.chat_id,
+    created_at: pollTime(record),
+    kind: getPollStrategy(record).kind,
+    headcount: countVotes(slots, votes),
+    answers,
+  };
+  // Only menu items are worth ranking, not "+1" / "+2"
+  if (record.menu || slots.some((s) => s.price)) {
+    summary.items = {};
+    for (const row of breakdownVotes(slots, votes).options) {
+      summary.items[row.label] = (summary.items[row.label] ?? 0) + row.total;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Summaries of every poll, archived or not.
+ */
+export function getAllPollSummaries(): PollSummary[] {
+  return [
+    ...Object.values(getArchivedSummaries()),
+    ...Object.values(getAllPolls()).map(summarizePoll),
+  ];
+}
+
+/**
+ * Move finished polls older than `retentionDays` into monthly archive files,
+ * e.g. `votes-2025-06.json`, keeping only their summaries for statistics.
+ * Polls nobody touched for that long count as finished even if never closed.
+ */
+export function prunePolls(
+  retentionDays: number = POLL_RETENTION_DAYS,
+  now = Date.now()
+): PruneResult {
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  const polls = getAllPolls();
+  const byMonth = new Map<string, Record<string, PollRecord>>();
+  let bytes = 0;
+
+  for (const [id, record] of Object.entries(polls)) {
+    const finished = record.is_closed || (record.update_time ?? 0) < cutoff;
+    if (!finished || pollTime(record) >= cutoff) continue;
+    const month = toTaipeiDate(pollTime(record)).slice(0, 7);
+    if (!byMonth.has(month)) byMonth.set(month, {});
+    byMonth.get(month)[id] = record;
+  }
+  if (byMonth.size === 0) return { archived: 0, months: [], bytes: 0 };
+
+  // Write the archives and summaries before dropping anything
+  const summaries = getArchivedSummaries();
+  for (const [month, records] of byMonth) {
+    const archive = new JsonFileDb<{ polls: Record<string, PollRecord> }>(
+      `votes-${month}.json`
+    );
+    archive.set("polls", { ...archive.get("polls"), ...records });
+    for (const [id, record] of Object.entries(records)) {
+      summaries[id] = summarizePoll(record);
+      bytes += Buffer.byteLength(JSON.stringify(record));
+      delete polls[id];
+    }
+  }
+  statsDb.set("polls", summaries);
+  voteData.set("polls", polls);
+
+  return {
+    archived: Array.from(byMonth.values()).reduce(
+      (sum, records) => sum + Object.keys(records).length,
+      0
+    ),
+    months: Array.from(byMonth.keys()).sort(),
+    bytes,
+  };
+}
@@ -0,0 +1,199 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PollRecord,
+  PollSlot,
+  breakdownVotes,
+  computeBill,
+  countVotes,
+  getPollSlots,
+  listAttendees,
+  normalizePollOptions,
+  tallyOptions,
+} from "./pollService.js";
+
+const voters = {
+  "1": { first_name: "小明" },
+  "2": { first_name: "小華" },
+  "3": { first_name: "阿土" },
+};
+
+// A ramen poll from before poll kinds and menus were stored on the record
+const legacyRamen: PollRecord = {
+  question: "限定拉麵，點餐！🍜",
+  options: [
+    { text: "+1 | 🍜 單點", voter_count: 1 },
+    { text: "+2 | 🍜 單點", voter_count: 0 },
+    { text: "+1 | 🥚 加蛋", voter_count: 1 },
+    { text: "+2 | 🥚 加蛋", voter_count: 1 },
+    { text: "+1 | ✨ 超值", voter_count: 0 },
+    { text: "+2 | ✨ 超值", voter_count: 0 },
+    { text: "偶不吃了 😠", voter_count: 1 },
+  ],
+  chat_id: -100,
+  votes: {
+    "1": [0, 2], // 單點 + 加蛋
+    "2": [3], // 2 × 加蛋
+    "3": [6], // opt-out
+  },
+};
+
+const generic: PollRecord = {
+  question: "今天ㄘ什麼 🤔",
+  options: [
+    { text: "+1", voter_count: 1 },
+    { text: "+2", voter_count: 1 },
+    { text: "+4", voter_count: 0 },
+    { text: "蓋被被 😴", voter_count: 1 },
+  ],
+  chat_id: -100,
+  kind: "generic",
+  votes: { "1": [0], "2": [1], "3": [3] },
+};
+
+describe("getPollSlots", () => {
+  it("maps legacy ramen options to the built-in menu", () => {
+    const slots = getPollSlots(legacyRamen);
+    assert.equal(slots.length, 6);
+    assert.deepEqual(slots[3], {
+      text: "+2 | 🥚 加蛋",
+      label: "🥚 加蛋",
+      quantity: 2,
+      price: 310,
+    });
+  });
+
+  it("prefers the slots saved on the record over the menu", () => {
+    const slots: PollSlot[] = [
+      { text: "+1 | 🍜 沾麵", label: "🍜 沾麵", quantity: 1, price: 300 },
+    ];
+    const record: PollRecord = {
+      ...legacyRamen,
+      kind: "menu",
+      menu: "removed-menu",
+      slots,
+    };
+    assert.deepEqual(getPollSlots(record), slots);
+  });
+
+  it("reads quantities from generic options, leaving out the opt-out", () => {
+    const slots = getPollSlots(generic);
+    assert.deepEqual(
+      slots.map((s) => s.quantity),
+      [1, 2, 4]
+    );
+  });
+});
+
+describe("countVotes", () => {
+  it("counts quantities and ignores the opt-out", () => {
+    assert.equal(countVotes(getPollSlots(legacyRamen), legacyRamen.votes), 4);
+    assert.equal(countVotes(getPollSlots(generic), generic.votes), 3);
+  });
+
+  it("ignores option ids without a slot", () => {
+    const slots: PollSlot[] = [{ text: "a", label: "a", quantity: 1 }];
+    assert.equal(countVotes(slots, { "1": [0, 5] }), 1);
+  });
+});
+
+describe("listAttendees", () => {
+  it("leaves out voters who only picked the opt-out", () => {
+    assert.deepEqual(
+      listAttendees(getPollSlots(legacyRamen), legacyRamen.votes),
+      ["1", "2"]
+    );
+  });
+
+  it("leaves out retracted votes", () => {
+    assert.deepEqual(listAttendees(getPollSlots(generic), { "1": [] }), []);
+  });
+});
+
+describe("tallyOptions", () => {
+  it("merges quantities of the same item", () => {
+    const { count, result } = tallyOptions(
+      getPollSlots(legacyRamen),
+      legacyRamen.options
+    );
+    assert.equal(count, 4);
+    assert.deepEqual(result, { "🍜 單點": 1, "🥚 加蛋": 3, "✨ 超值": 0 });
+  });
+
+  it("does not count the opt-out", () => {
+    const { count, result } = tallyOptions(
+      getPollSlots(generic),
+      generic.options
+    );
+    assert.equal(count, 3);
+    assert.equal(Object.keys(result).length, 3);
+  });
+});
+
+describe("breakdownVotes", () => {
+  it("lists who picked what and who opted out", () => {
+    const { options, byeVoters } = breakdownVotes(
+      getPollSlots(legacyRamen),
+      legacyRamen.votes,
+      voters
+    );
+    assert.deepEqual(byeVoters, ["阿土"]);
+    const egg = options.find((o) => o.label === "🥚 加蛋");
+    assert.equal(egg.total, 3);
+    assert.deepEqual(egg.voters, [
+      { user_id: "1", name: "小明", quantity: 1 },
+      { user_id: "2", name: "小華", quantity: 2 },
+    ]);
+    assert.equal(options.find((o) => o.label === "✨ 超值").total, 0);
+  });
+
+  it("treats only the index right after the slots as the opt-out", () => {
+    const slots = getPollSlots(generic);
+    const { byeVoters } = breakdownVotes(slots, { "1": [3], "2": [7] });
+    assert.deepEqual(byeVoters, ["1"]);
+  });
+});
+
+describe("computeBill", () => {
+  it("charges each voter for their picks", () => {
+    const { lines, total } = computeBill(
+      getPollSlots(legacyRamen),
+      legacyRamen.votes,
+      voters
+    );
+    assert.deepEqual(lines, [
+      {
+        user_id: "1",
+        name: "小明",
+        items: [
+          { label: "🍜 單點", quantity: 1 },
+          { label: "🥚 加蛋", quantity: 1 },
+        ],
+        amount: 590,
+      },
+      {
+        user_id: "2",
+        name: "小華",
+        items: [{ label: "🥚 加蛋", quantity: 2 }],
+        amount: 620,
+      },
+    ]);
+    assert.equal(total, 1210);
+  });
+
+  it("has nothing to charge for polls without prices", () => {
+    assert.deepEqual(computeBill(getPollSlots(generic), generic.votes), {
+      lines: [],
+      total: 0,
+    });
+  });
+});
+
+describe("normalizePollOptions", () => {
+  it("trims, drops empty options and keeps the first of repeated ones", () => {
+    assert.deepEqual(
+      normalizePollOptions([" 五之神 ", "", "一蘭", "五之神", "  "]),
+      ["五之神", "一蘭"]
+    );
+  });
+});
@@ -0,0 +1,603 @@
+import { Api } from "grammy";
+import type { Poll } from "grammy/types";
+import JsonFileDb from "./db.js";
+import { hash } from "./telegram.js";
+import { formatTaipeiTime } from "./date.js";
+import {
+  DEFAULT_MENU,
+  Menu,
+  getMenu,
+  getMenuOptions,
+  itemLabel,
+} from "./menu.js";
+
+// Centralised vote database instance
+export const voteData = new JsonFileDb("votes.json");
+
+// How many times the organizer may nag the same poll
+export const MAX_NAGS_PER_POLL = 2;
+// Answering any of the chat's last this many polls makes a member a regular
+const REGULAR_POLL_WINDOW = 10;
+
+export type PollKind = "generic" | "ramen" | "menu" | "custom";
+
+export interface PollOptionResult {
+  text: string;
+  voter_count: number;
+}
+
+/**
+ * A poll as stored in `votes.json`, keyed by Telegram poll id.
+ */
+export interface PollRecord {
+  question: string;
+  options: PollOptionResult[];
+  total_voter_count?: number;
+  is_closed?: boolean;
+  chat_id: number;
+  // Missing on /vote polls from before auto-close
+  message_id?: number;
+  user_id?: number; // organizer
+  chat_name?: string;
+  chat_type?: string;
+  // Missing on records from before poll kinds; inferred from the options
+  kind?: PollKind;
+  menu?: string;
+  // Copied from the menu when the poll is created, so editing or removing
+  // the menu later does not change what the votes count as. Missing on
+  // records from before; those use the current menu
+  menu_name?: string;
+  slots?: PollSlot[];
+  // Telegram's is_anonymous, kept under our own name since that one is pruned
+  anonymous?: boolean;
+  // Voter id → picked option indexes
+  votes: Record<string, number[]>;
+  close_at?: number;
+  // Voter id → when they ticked themselves off as paid
+  paid?: Record<string, number>;
+  bill_message_id?: number;
+  // Order ticket posted on close, and the queue number entered on it
+  ticket_message_id?: number;
+  ticket_number?: number;
+  // Times the organizer pressed "⏰ 催一下"
+  nag_count?: number;
+  // Missing on records from before lunch stats; use update_time instead
+  created_at?: number;
+  update_time?: number;
+}
+
+export interface Voter {
+  first_name?: string;
+  username?: string;
+}
+
+/**
+ * What one pick of a poll option counts as. The opt-out, the last option of
+ * every kind except custom polls, has no slot.
+ */
+export interface PollSlot {
+  text: string; // option text sent to Telegram
+  label: string; // what the pick is, e.g. "🥚 加蛋"
+  quantity: number;
+  price?: number;
+}
+
+/**
+ * How a kind of poll lays out its options and counts its answers.
+ */
+export interface PollStrategy {
+  kind: PollKind;
+  defaultTitle: string;
+  // Whether the stop button shows a live headcount
+  liveHeadcount: boolean;
+  // Whether an opt-out option is appended after the slots
+  byeOption: boolean;
+  slots(record: Pick<PollRecord, "menu" | "options">): PollSlot[];
+}
+
+const GENERIC_QUANTITIES = [1, 2, 4];
+const BYE_OPTIONS = ["偶不吃了 😠", "怕的是他 👑", "蓋被被 😴"];
+
+function menuSlots(menu: Menu | undefined): PollSlot[] {
+  if (!menu) return [];
+  return getMenuOptions(menu).map((o) => ({
+    text: o.text,
+    label: itemLabel(o.item),
+    quantity: o.quantity,
+    price: o.item.price,
+  }));
+}
+
+const strategies: Record<PollKind, PollStrategy> = {
+  // "+1 / +2 / +4" headcount
+  generic: {
+    kind: "generic",
+    defaultTitle: "今天ㄘ什麼 🤔",
+    liveHeadcount: false,
+    byeOption: true,
+    slots: (record) => {
+      const texts = record.options
+        ? record.options.slice(0, -1).map((o) => o.text)
+        : GENERIC_QUANTITIES.map((q) => `+${q}`);
+      return texts.map((text) => ({
+        text,
+        label: text,
+        quantity: Number(text.replace("+", "").trim()) || 1,
+      }));
+    },
+  },
+  // The built-in ramen menu
+  ramen: {
+    kind: "ramen",
+    defaultTitle: "限定拉麵，點餐！🍜",
+    liveHeadcount: true,
+    byeOption: true,
+    slots: () => menuSlots(getMenu(DEFAULT_MENU)),
+  },
+  // A menu from data/menus.json
+  menu: {
+    kind: "menu",
+    defaultTitle: "點餐！🍜",
+    liveHeadcount: true,
+    byeOption: true,
+    slots: (record) => menuSlots(getMenu(record.menu)),
+  },
+  // Arbitrary options from `/vote "title" a b c`, one pick per option
+  custom: {
+    kind: "custom",
+    defaultTitle: "投票！🗳️",
+    liveHeadcount: false,
+    byeOption: false,
+    slots: (record) =>
+      (record.options ?? []).map((o) => ({
+        text: o.text,
+        label: o.text,
+        quantity: 1,
+      })),
+  },
+};
+
+function inferKind(record: Pick<PollRecord, "kind" | "menu" | "options">) {
+  if (record.kind) return record.kind;
+  if (record.menu) return record.menu === DEFAULT_MENU ? "ramen" : "menu";
+  // Ramen polls from before menus had "+1 | 🍜 單點" style options
+  const isLegacyRamen = record.options?.some((o) => o.text.includes("|"));
+  return isLegacyRamen ? "ramen" : "generic";
+}
+
+export function getPollStrategy(
+  record: Pick<PollRecord, "kind" | "menu" | "options">
+): PollStrategy {
+  return strategies[inferKind(record)];
+}
+
+export function getPollSlots(record: PollRecord): PollSlot[] {
+  return record.slots ?? getPollStrategy(record).slots(record);
+}
+
+/**
+ * Name of the menu a poll was made from, or null for polls without one.
+ */
+export function getPollMenuName(record: PollRecord): string | null {
+  if (record.menu_name) return record.menu_name;
+  const kind = inferKind(record);
+  if (kind === "ramen") return getMenu(DEFAULT_MENU)?.name ?? null;
+  if (kind === "menu") return getMenu(record.menu)?.name ?? null;
+  return null;
+}
+
+/**
+ * Trim option texts and drop empty and repeated ones; Telegram rejects
+ * duplicate options, and results are matched to options by position.
+ */
+export function normalizePollOptions(options: string[]): string[] {
+  return Array.from(
+    new Set(options.map((o) => o.trim()).filter((o) => o.length > 0))
+  );
+}
+
+export function randomByeOption(): string {
+  return BYE_OPTIONS[Math.floor(Math.random() * BYE_OPTIONS.length)];
+}
+
+// ----------------- Storage -----------------
+
+export function getAllPolls(): Record<string, PollRecord> {
+  return (voteData.get("polls") as Record<string, PollRecord>) || {};
+}
+
+export function getPollRecord(id: string): PollRecord | undefined {
+  return getAllPolls()[id];
+}
+
+/**
+ * Find a poll by the message it was sent in.
+ */
+export function findPollByMessage(
+  chatId: number,
+  messageId: number
+): [string, PollRecord] | undefined {
+  return Object.entries(getAllPolls()).find(
+    ([, record]) => record.chat_id === chatId && record.message_id === messageId
+  );
+}
+
+/**
+ * When a poll was created. Older records only have the last update time.
+ */
+export function pollTime(record: PollRecord): number {
+  return record.created_at ?? record.update_time ?? 0;
+}
+
+/**
+ * Fields of Telegram's poll object that are not kept on the record.
+ */
+type PrunedPollFields = Partial<
+  Pick<Poll, "id" | "is_anonymous" | "type" | "allows_multiple_answers">
+>;
+
+/**
+ * Persist (or merge-update) poll information to `votes.json`, and return
+ * the stored record.
+ */
+export function updatePollRecord(
+  id: string,
+  data: Partial<PollRecord> & PrunedPollFields
+): PollRecord {
+  const polls = getAllPolls();
+  const merged: PollRecord & PrunedPollFields = {
+    ...polls[id],
+    ...data,
+    update_time: Date.now(),
+  };
+  // prune noisy fields from Telegram poll object
+  delete merged.id;
+  delete merged.is_anonymous;
+  delete merged.type;
+  delete merged.allows_multiple_answers;
+
+  polls[id] = merged;
+  voteData.set("polls", polls);
+  return merged;
+}
+
+export function getVoters(): Record<string, Voter> {
+  return (voteData.get("users") as Record<string, Voter>) || {};
+}
+
+function voterName(voters: Record<string, Voter>, userId: string): string {
+  return voters[userId]?.first_name ?? userId;
+}
+
+/**
+ * Store a poll answer and the voter's name. Return the updated record, or
+ * undefined for polls the bot did not create.
+ */
+export function recordAnswer(
+  pollId: string,
+  user: { id: number; first_name?: string; username?: string },
+  optionIds: number[]
+): PollRecord | undefined {
+  const voters = getVoters();
+  voters[user.id] = { first_name: user.first_name, username: user.username };
+  voteData.set("users", voters);
+
+  const record = getPollRecord(pollId);
+  if (!record) return undefined;
+  return updatePollRecord(pollId, {
+    votes: { ...record.votes, [user.id]: optionIds },
+  });
+}
+
+/**
+ * Tick a voter off (or back on) in a poll's payment list.
+ */
+export function setPaid(pollId: string, userId: string, paid: boolean) {
+  const payments: Record<string, number> = {
+    ...getPollRecord(pollId)?.paid,
+  };
+  if (paid) payments[userId] = Date.now();
+  else delete payments[userId];
+  updatePollRecord(pollId, { paid: payments });
+}
+
+/**
+ * Ids of the members who answered any of the chat's recent polls, other
+ * than the given one. Anonymous polls have no names and are skipped.
+ */
+export function listRegulars(chatId: number, excludeId?: string): string[] {
+  const recent = Object.entries(getAllPolls())
+    .filter(
+      ([id, record]) =>
+        id !== excludeId && record.chat_id === chatId && !record.anonymous
+    )
+    .sort(([, a], [, b]) => pollTime(b) - pollTime(a))
+    .slice(0, REGULAR_POLL_WINDOW);
+  const regulars = new Set<string>();
+  for (const [, record] of recent) {
+    for (const [userId, optionIds] of Object.entries(record.votes ?? {})) {
+      if (optionIds.length > 0) regulars.add(userId);
+    }
+  }
+  return Array.from(regulars);
+}
+
+/**
+ * Open polls whose auto-close deadline has passed.
+ */
+export function listDuePolls(now = Date.now()): [string, PollRecord][] {
+  return Object.entries(getAllPolls()).filter(
+    ([, record]) =>
+      record.close_at && !record.is_closed && record.close_at <= now
+  );
+}
+
+// ----------------- Counting -----------------
+
+/**
+ * Headcount from each voter's picks, e.g. "+2" counts as two people.
+ */
+export function countVotes(
+  slots: PollSlot[],
+  votes: Record<string, number[]>
+): number {
+  return Object.values(votes)
+    .flat()
+    .reduce((sum, id) => sum + (slots[id]?.quantity ?? 0), 0);
+}
+
+/**
+ * Ids of the voters who picked something other than the opt-out.
+ */
+export function listAttendees(
+  slots: PollSlot[],
+  votes: Record<string, number[]>
+): string[] {
+  return Object.entries(votes)
+    .filter(([, optionIds]) => optionIds.some((id) => slots[id]))
+    .map(([userId]) => userId);
+}
+
+/**
+ * Headcount per label from Telegram's per-option voter counts.
+ */
+export function tallyOptions(
+  slots: PollSlot[],
+  options: PollOptionResult[]
+): { count: number; result: Record<string, number> } {
+  const result: Record<string, number> = {};
+  slots.forEach(({ label, quantity }, i) => {
+    result[label] =
+      (result[label] ?? 0) + (options[i]?.voter_count ?? 0) * quantity;
+  });
+  const count = Object.values(result).reduce((acc, cur) => acc + cur, 0);
+  return { count, result };
+}
+
+export interface OptionBreakdown {
+  label: string;
+  total: number;
+  voters: { user_id: string; name: string; quantity: number }[];
+}
+
+/**
+ * Who picked what, per label, plus the voters who picked the opt-out.
+ */
+export function breakdownVotes(
+  slots: PollSlot[],
+  votes: Record<string, number[]>,
+  voters: Record<string, Voter> = {}
+): { options: OptionBreakdown[]; byeVoters: string[] } {
+  const rows = new Map<string, OptionBreakdown>();
+  for (const slot of slots) {
+    if (!rows.has(slot.label)) {
+      rows.set(slot.label, { label: slot.label, total: 0, voters: [] });
+    }
+  }
+
+  const byeVoters: string[] = [];
+  for (const [userId, optionIds] of Object.entries(votes)) {
+    const name = voterName(voters, userId);
+    for (const id of optionIds) {
+      const slot = slots[id];
+      if (!slot) {
+        if (id === slots.length) byeVoters.push(name);
+        continue;
+      }
+      const row = rows.get(slot.label);
+      row.total += slot.quantity;
+      const voter = row.voters.find((v) => v.user_id === userId);
+      if (voter) voter.quantity += slot.quantity;
+      else row.voters.push({ user_id: userId, name, quantity: slot.quantity });
+    }
+  }
+  return { options: Array.from(rows.values()), byeVoters };
+}
+
+export interface BillLine {
+  user_id: string;
+  name: string;
+  items: { label: string; quantity: number }[];
+  amount: number;
+}
+
+/**
+ * Work out what each voter owes from their picks and the slot prices.
+ * Voters who only picked the opt-out are left out.
+ */
+export function computeBill(
+  slots: PollSlot[],
+  votes: Record<string, number[]>,
+  voters: Record<string, Voter> = {}
+): { lines: BillLine[]; total: number } {
+  const lines: BillLine[] = [];
+  for (const [userId, optionIds] of Object.entries(votes)) {
+    const quantities = new Map<string, number>();
+    let amount = 0;
+    for (const id of optionIds) {
+      const slot = slots[id];
+      if (!slot?.price) continue;
+      quantities.set(
+        slot.label,
+        (quantities.get(slot.label) ?? 0) + slot.quantity
+      );
+      amount += slot.price * slot.quantity;
+    }
+    if (amount === 0) continue;
+    lines.push({
+      user_id: userId,
+      name: voterName(voters, userId),
+      items: Array.from(quantities, ([label, quantity]) => ({
+        label,
+        quantity,
+      })),
+      amount,
+    });
+  }
+  const total = lines.reduce((acc, line) => acc + line.amount, 0);
+  return { lines, total };
+}
+
+// ----------------- Telegram -----------------
+
+/**
+ * Stop button under a poll, with the deadline and live headcount when the
+ * poll kind has them.
+ */
+export function stopButton(
+  record: Pick<
+    PollRecord,
+    "kind" | "menu" | "options" | "user_id" | "close_at"
+  >,
+  headcount = 0
+) {
+  const deadline = record.close_at
+    ? `⏰ ${formatTaipeiTime(record.close_at)} | `
+    : "";
+  if (getPollStrategy(record).liveHeadcount) {
+    return {
+      text: `${deadline}👥 ${headcount} 人 | 🚫 結束投票`,
+      callback_data: `stopramenvote_${hash(record.user_id)}`,
+    };
+  }
+  return {
+    text: `${deadline}🚫 結束！很遜欸`,
+    callback_data: `stopvote_${hash(record.user_id)}`,
+  };
+}
+
+/**
+ * Buttons under a poll: the stop button, plus "⏰ 催一下" for the organizer
+ * in groups where answers are not anonymous.
+ */
+export function pollKeyboard(
+  record: Pick<
+    PollRecord,
+    "kind" | "menu" | "options" | "user_id" | "close_at" | "anonymous"
+  > & { chat_type?: string },
+  headcount = 0
+) {
+  const rows = [[stopButton(record, headcount)]];
+  if (record.chat_type !== "private" && !record.anonymous) {
+    rows.push([
+      {
+        text: "⏰ 催一下",
+        callback_data: `nagvote_${hash(record.user_id)}`,
+      },
+    ]);
+  }
+  return rows;
+}
+
+export interface CreatePollOptions {
+  kind: PollKind;
+  // Option texts of custom polls
+  options?: string[];
+  single?: boolean;
+  anonymous?: boolean;
+  menuId?: string;
+  title?: string;
+  byeOption?: string;
+  closeAt?: number | null;
+  replyTo?: number;
+}
+
+/**
+ * Send a poll of the given kind with its stop button and store its record.
+ * Shared by the vote commands and the AI tools.
+ */
+export async function createPoll(
+  api: Api,
+  chat: { id: number; type: string; title?: string; first_name?: string },
+  organizerId: number,
+  {
+    kind,
+    menuId,
+    options,
+    single,
+    anonymous,
+    title,
+    byeOption,
+    closeAt,
+    replyTo,
+  }: CreatePollOptions
+): Promise<{ pollId: string; record: PollRecord }> {
+  const menu = kind === "menu" ? getMenu(menuId) : undefined;
+  // An unknown menu falls back to the built-in one
+  const base = {
+    kind: kind === "menu" && !menu ? ("ramen" as const) : kind,
+    menu:
+      menu?.id ??
+      (kind === "ramen" || kind === "menu" ? DEFAULT_MENU : undefined),
+    options: options?.map((text) => ({ text, voter_count: 0 })),
+    user_id: organizerId,
+    close_at: closeAt ?? undefined,
+  };
+  const strategy = getPollStrategy(base);
+  const baseMenu = base.menu ? getMenu(base.menu) : undefined;
+  const voteTitle = title?.trim() || baseMenu?.title || strategy.defaultTitle;
+  const slots = strategy.slots(base);
+  const texts = slots.map((s) => s.text);
+  if (strategy.byeOption) texts.push(byeOption?.trim() || randomByeOption());
+  const pollOptions = texts.map((text) => ({ text }));
+
+  const data = await api.sendPoll(chat.id, voteTitle, pollOptions, {
+    allows_multiple_answers: !single,
+    is_anonymous: !!anonymous,
+    reply_to_message_id: replyTo,
+    reply_markup: {
+      inline_keyboard: pollKeyboard({
+        ...base,
+        anonymous,
+        chat_type: chat.type,
+      }),
+    },
+  });
+
+  const record = updatePollRecord(data.poll.id, {
+    ...data.poll,
+    ...base,
+    menu_name: baseMenu?.name,
+    slots,
+    chat_id: chat.id,
+    message_id: data.message_id,
+    chat_name: chat.title || chat.first_name,
+    chat_type: chat.type,
+    anonymous: !!anonymous || undefined,
+    created_at: Date.now(),
+    votes: {},
+  });
+  return { pollId: data.poll.id, record };
+}
+
+/**
+ * Stop a poll on Telegram and store its final counts.
+ */
+export async function stopPoll(
+  api: Api,
+  chatId: number,
+  messageId: number
+): Promise<{ pollId: string; record: PollRecord }> {
+  const poll = await api.stopPoll(chatId, messageId);
+  return { pollId: poll.id, record: updatePollRecord(poll.id, poll) };
+}
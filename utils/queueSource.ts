@@ -0,0 +1,137 @@
+import fs from "fs";
+
+/**
+ * One poll result: the calling number and when the shop last changed it.
+ */
+export interface QueueReading {
+  number: number;
+  updatedAt: number | null; // null when the source has no timestamp
+}
+
+/**
+ * A shop whose calling number can be polled.
+ */
+export interface QueueSource {
+  id: string; // registry key, used in commands and callback data
+  name: string; // display name
+  endpoint: string;
+  // Extract the current reading from the endpoint's JSON response
+  parse: (body: any) => QueueReading | null;
+  minNumber: number;
+  maxNumber: number;
+  cacheTtlMs: number;
+  // Opening hours, Taipei "HH:mm"
+  openingTime: string;
+  // Last call of the day, Taipei "HH:mm"
+  closingTime: string;
+}
+
+export interface TagfansShopOptions {
+  id: string;
+  name: string;
+  gid: number;
+  field?: string;
+  minNumber?: number;
+  maxNumber?: number;
+  cacheTtlMs?: number;
+  openingTime?: string;
+  closingTime?: string;
+}
+
+export const DEFAULT_SHOP = "gonokami";
+const SHOPS_FILE = "./data/shops.json";
+
+const registry = new Map<string, QueueSource>();
+
+/**
+ * Convert an `UpdDate` value to a timestamp. Accepts epoch seconds or
+ * milliseconds, and date strings; strings without a zone are Taipei time.
+ */
+function parseUpdDate(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const num = Number(value);
+  if (!Number.isNaN(num)) {
+    return num < 1e12 ? num * 1000 : num;
+  }
+  const str = String(value).trim().replace(" ", "T");
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(str);
+  const time = Date.parse(hasZone ? str : `${str}+08:00`);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Build a source for shops on the tagfans ticketing system. Branches only
+ * differ in their `$gid`.
+ */
+export function tagfansSource({
+  id,
+  name,
+  gid,
+  field = "目前號碼",
+  minNumber = 1001,
+  maxNumber = 1200,
+  cacheTtlMs = 60 * 1000,
+  openingTime = "11:00",
+  closingTime = "21:30",
+}: TagfansShopOptions): QueueSource {
+  return {
+    id,
+    name,
+    endpoint: `https://dxc.tagfans.com/mighty?_field%5B%5D=*&%24gid=${gid}&%24description=anouncingNumbers`,
+    parse: (body) => {
+      if (!Array.isArray(body) || body.length === 0) return null;
+      const latest = [...body].sort(
+        (a, b) => parseUpdDate(b.UpdDate) - parseUpdDate(a.UpdDate)
+      )[0];
+      const value = JSON.parse(latest.detail_json).selections[field];
+      if (value === undefined || value === null) return null;
+      return { number: Number(value), updatedAt: parseUpdDate(latest.UpdDate) };
+    },
+    minNumber,
+    maxNumber,
+    cacheTtlMs,
+    openingTime,
+    closingTime,
+  };
+}
+
+export function registerQueueSource(source: QueueSource): void {
+  // Ids end up in callback data and deep links
+  if (!/^[a-z0-9-]{1,16}$/.test(source.id)) {
+    throw new Error(`Invalid queue source id: ${source.id}`);
+  }
+  registry.set(source.id, source);
+}
+
+export function getQueueSource(
+  id: string = DEFAULT_SHOP
+): QueueSource | undefined {
+  return registry.get(id);
+}
+
+export function listQueueSources(): QueueSource[] {
+  return Array.from(registry.values());
+}
+
+export function isKnownShop(id: string): boolean {
+  return registry.has(id);
+}
+
+// ----------------- Built-in shops -----------------
+registerQueueSource(
+  tagfansSource({ id: DEFAULT_SHOP, name: "五之神", gid: 10265 })
+);
+
+// Extra tagfans branches can be listed in data/shops.json
+try {
+  if (fs.existsSync(SHOPS_FILE)) {
+    const shops: TagfansShopOptions[] = JSON.parse(
+      fs.readFileSync(SHOPS_FILE, "utf8")
+    );
+    for (const shop of shops) {
+      registerQueueSource(tagfansSource(shop));
+    }
+  }
+} catch (e) {
+  console.error(`Error reading ${SHOPS_FILE}`, e);
+}
@@ -1,4 +1,9 @@
 import JsonFileDb from "./db.js";
+import { DEFAULT_SHOP, QueueSource } from "./queueSource.js";
+import { getChatSettings } from "./chatSettings.js";
+import { taipeiTimeOn, toTaipeiDate } from "./date.js";
+
+export type SubscriptionStage = "near";
 
 export interface Subscription {
   chat_id: number;
@@ -7,13 +12,32 @@ export interface Subscription {
   target_number: number;
   created_at: number;
   message_id: number;
+  // Queue source id; missing on records from before multi-shop support
+  shop?: string;
+  // Send a "getting close" notice when the queue reaches target - lead
+  lead?: number;
+  // Notification stages already sent, so nothing fires twice
+  notified_stages?: SubscriptionStage[];
+  // Expiry is paused while the shop is closed during the day, e.g. before it
+  // opens: start of the current pause, and the total paused time so far
+  paused_at?: number;
+  paused_ms?: number;
+  // Lifetime after /extend; missing means the chat's default
+  lifetime_ms?: number;
+  // When the "about to expire" warning was sent
+  warned_at?: number;
 }
 
 // Dedicated DB instance for subscriptions
 const subDb = new JsonFileDb("subscriptions.json");
 
-export const MIN_NUMBER = 1001;
-export const MAX_NUMBER = 1200;
+// How many tickets one user may watch in the same chat
+export const MAX_SUBSCRIPTIONS_PER_USER = 5;
+export const MAX_LEAD = 100;
+export const DEFAULT_LIFETIME_HOURS = 5;
+export const MAX_LIFETIME_HOURS = 12;
+// Warn this long before a subscription expires
+export const EXPIRY_WARNING_MS = 15 * 60 * 1000;
 
 export function getAll(): Subscription[] {
   return (subDb.get("subscriptions") as Subscription[] | undefined) ?? [];
@@ -23,29 +47,87 @@ export function saveAll(subs: Subscription[]): void {
   subDb.set("subscriptions", subs);
 }
 
+export function getSubscriptionShop(sub: Subscription): string {
+  return sub.shop ?? DEFAULT_SHOP;
+}
+
+// Omitted `targetNumber` / `shopId` match any value
+function isSameSub(
+  s: Subscription,
+  chatId: number,
+  userId: number,
+  targetNumber?: number,
+  shopId?: string
+): boolean {
+  return (
+    s.chat_id === chatId &&
+    s.user_id === userId &&
+    (targetNumber === undefined || s.target_number === targetNumber) &&
+    (shopId === undefined || getSubscriptionShop(s) === shopId)
+  );
+}
+
+/**
+ * Find a user's subscription in a chat. When `targetNumber` is omitted the
+ * first subscription found is returned.
+ */
 export function findSubscription(
   chatId: number,
-  userId: number
+  userId: number,
+  targetNumber?: number,
+  shopId?: string
 ): Subscription | undefined {
   const subs = getAll();
-  return subs.find((s) => s.chat_id === chatId && s.user_id === userId);
+  return subs.find((s) => isSameSub(s, chatId, userId, targetNumber, shopId));
+}
+
+/**
+ * All subscriptions a user holds in a chat, sorted by target number.
+ */
+export function findSubscriptions(
+  chatId: number,
+  userId: number,
+  shopId?: string
+): Subscription[] {
+  return getAll()
+    .filter((s) => isSameSub(s, chatId, userId, undefined, shopId))
+    .sort((a, b) => a.target_number - b.target_number);
+}
+
+/**
+ * All subscriptions a user holds across every chat.
+ */
+export function findUserSubscriptions(userId: number): Subscription[] {
+  return getAll()
+    .filter((s) => s.user_id === userId)
+    .sort((a, b) => a.target_number - b.target_number);
 }
 
 export type AddSubResult =
   | { ok: true; sub: Subscription }
   | { ok: false; reason: string };
 
+export interface AddSubOptions {
+  lead?: number;
+  shop?: string;
+}
+
 export function addSubscription(
   chatId: number,
   userId: number,
   firstName: string,
   targetNumber: number,
-  messageId: number
+  messageId: number,
+  { lead, shop = DEFAULT_SHOP }: AddSubOptions = {}
 ): AddSubResult {
   const subs = getAll();
-  if (subs.find((s) => s.chat_id === chatId && s.user_id === userId)) {
+  if (subs.find((s) => isSameSub(s, chatId, userId, targetNumber, shop))) {
     return { ok: false, reason: "duplicate" };
   }
+  const owned = subs.filter((s) => isSameSub(s, chatId, userId));
+  if (owned.length >= MAX_SUBSCRIPTIONS_PER_USER) {
+    return { ok: false, reason: "too_many" };
+  }
   const newSub: Subscription = {
     chat_id: chatId,
     user_id: userId,
@@ -53,19 +135,27 @@ export function addSubscription(
     target_number: targetNumber,
     created_at: Date.now(),
     message_id: messageId,
+    shop,
   };
+  if (lead) newSub.lead = lead;
   subs.push(newSub);
   saveAll(subs);
   return { ok: true, sub: newSub };
 }
 
+/**
+ * Remove one subscription. When `targetNumber` is omitted the user's first
+ * subscription in the chat is removed.
+ */
 export function removeSubscription(
   chatId: number,
-  userId: number
+  userId: number,
+  targetNumber?: number,
+  shopId?: string
 ): Subscription | undefined {
   const subs = getAll();
-  const idx = subs.findIndex(
-    (s) => s.chat_id === chatId && s.user_id === userId
+  const idx = subs.findIndex((s) =>
+    isSameSub(s, chatId, userId, targetNumber, shopId)
   );
   if (idx === -1) return undefined;
   const [removed] = subs.splice(idx, 1);
@@ -73,15 +163,164 @@ export function removeSubscription(
   return removed;
 }
 
+function findStored(
+  subs: Subscription[],
+  sub: Subscription
+): Subscription | undefined {
+  return subs.find((s) =>
+    isSameSub(
+      s,
+      sub.chat_id,
+      sub.user_id,
+      sub.target_number,
+      getSubscriptionShop(sub)
+    )
+  );
+}
+
+/**
+ * Record that a notification stage has been sent for a subscription.
+ */
+export function markSubscriptionStage(
+  sub: Subscription,
+  stage: SubscriptionStage
+): void {
+  const subs = getAll();
+  const stored = findStored(subs, sub);
+  if (!stored) return;
+  const stages = stored.notified_stages ?? [];
+  if (stages.includes(stage)) return;
+  stored.notified_stages = [...stages, stage];
+  saveAll(subs);
+}
+
+/**
+ * Pause a subscription's expiry clock, e.g. while the shop is closed.
+ */
+export function pauseSubscription(sub: Subscription, now = Date.now()): void {
+  const subs = getAll();
+  const stored = findStored(subs, sub);
+  if (!stored || stored.paused_at !== undefined) return;
+  stored.paused_at = now;
+  saveAll(subs);
+}
+
+/**
+ * Resume a paused subscription, adding the pause to its total paused time.
+ */
+export function resumeSubscription(sub: Subscription, now = Date.now()): void {
+  const subs = getAll();
+  const stored = findStored(subs, sub);
+  if (!stored || stored.paused_at === undefined) return;
+  stored.paused_ms = (stored.paused_ms ?? 0) + (now - stored.paused_at);
+  delete stored.paused_at;
+  saveAll(subs);
+}
+
+/**
+ * Whether the business day a subscription was made for is over: the shop
+ * has closed since, or it is a later day. Queue numbers start over every
+ * day, so the target means nothing after that. `closed` is whether the shop
+ * is closed right now; one still calling numbers after hours is not.
+ */
+export function isSubscriptionDayOver(
+  sub: Subscription,
+  source: QueueSource | undefined,
+  closed: boolean,
+  now = Date.now()
+): boolean {
+  const day = toTaipeiDate(sub.created_at);
+  if (day !== toTaipeiDate(now)) return true;
+  return (
+    closed &&
+    source !== undefined &&
+    now > taipeiTimeOn(day, source.closingTime)
+  );
+}
+
+/**
+ * How long a subscription has been running, not counting paused time.
+ */
+export function getSubscriptionAge(
+  sub: Subscription,
+  now = Date.now()
+): number {
+  const pausedNow = sub.paused_at !== undefined ? now - sub.paused_at : 0;
+  return now - sub.created_at - (sub.paused_ms ?? 0) - pausedNow;
+}
+
+/**
+ * How long a subscription may run before it expires, not counting pauses.
+ */
+export function getSubscriptionLifetime(sub: Subscription): number {
+  if (sub.lifetime_ms !== undefined) return sub.lifetime_ms;
+  const hours =
+    getChatSettings(sub.chat_id).sub_lifetime_hours ?? DEFAULT_LIFETIME_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+/**
+ * Record that the expiry warning has been sent for a subscription.
+ */
+export function markSubscriptionWarned(
+  sub: Subscription,
+  now = Date.now()
+): void {
+  const subs = getAll();
+  const stored = findStored(subs, sub);
+  if (!stored) return;
+  stored.warned_at = now;
+  saveAll(subs);
+}
+
+/**
+ * Lengthen a subscription's lifetime and re-arm its expiry warning. Return
+ * the updated subscription, or undefined if it no longer exists.
+ */
+export function extendSubscription(
+  sub: Subscription,
+  extraMs: number
+): Subscription | undefined {
+  const subs = getAll();
+  const stored = findStored(subs, sub);
+  if (!stored) return undefined;
+  stored.lifetime_ms = getSubscriptionLifetime(stored) + extraMs;
+  delete stored.warned_at;
+  saveAll(subs);
+  return stored;
+}
+
+/**
+ * Parse a lifetime argument in hours. Return null if invalid.
+ */
+export function parseLifetimeHours(arg: string): number | null {
+  const hours = Number(arg);
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_LIFETIME_HOURS) {
+    return null;
+  }
+  return hours;
+}
+
+/**
+ * Parse a lead argument such as "-10" or "10". Return null if invalid.
+ */
+export function parseLead(arg: string): number | null {
+  const lead = Math.abs(Number(arg));
+  if (!Number.isInteger(lead) || lead > MAX_LEAD) return null;
+  return lead;
+}
+
 /**
- * Validate a target number. Return null if valid, otherwise error key.
+ * Validate a target number against a shop's range. Return null if valid,
+ * otherwise error key.
  */
 export function validateTargetNumber(
   num: number,
-  currentNumber: number
+  currentNumber: number,
+  source: QueueSource
 ): string | null {
   if (Number.isNaN(num) || !Number.isInteger(num)) return "not_int";
-  if (num < MIN_NUMBER || num > MAX_NUMBER) return "out_of_range";
+  if (num < source.minNumber || num > source.maxNumber) return "out_of_range";
   if (num <= currentNumber) return "already_passed";
   return null;
 }
@@ -1,4 +1,5 @@
-import { Bot, Context, GrammyError } from "grammy";
+import { Api, Bot, Context, GrammyError } from "grammy";
+import type { MessageEntity } from "grammy/types";
 import crypto from "crypto";
 import os from "os";
 
@@ -109,9 +110,93 @@ export function safeEditMessageText(
     });
 }
 
+/**
+ * Build message text that mentions a user through a `text_mention` entity.
+ * Unlike a plain "@first_name" this notifies the user even without a username.
+ */
+export function textWithMention(
+  before: string,
+  user: { id: number; first_name: string },
+  after: string
+): { text: string; entities: MessageEntity[] } {
+  return {
+    text: before + user.first_name + after,
+    entities: [
+      {
+        type: "text_mention",
+        // Telegram offsets are UTF-16 code units, same as JS string length
+        offset: before.length,
+        length: user.first_name.length,
+        user: { id: user.id, is_bot: false, first_name: user.first_name },
+      },
+    ],
+  };
+}
+
+/**
+ * Like textWithMention, but mentions several users separated by "、".
+ */
+export function textWithMentions(
+  before: string,
+  users: { id: number; first_name: string }[],
+  after: string
+): { text: string; entities: MessageEntity[] } {
+  let text = before;
+  const entities: MessageEntity[] = [];
+  users.forEach((user, i) => {
+    if (i > 0) text += "、";
+    entities.push({
+      type: "text_mention",
+      offset: text.length,
+      length: user.first_name.length,
+      user: { id: user.id, is_bot: false, first_name: user.first_name },
+    });
+    text += user.first_name;
+  });
+  return { text: text + after, entities };
+}
+
+/**
+ * Download a file sent to the bot. Return null when it is larger than
+ * `maxBytes` or cannot be fetched.
+ */
+export async function downloadTelegramFile(
+  api: Api,
+  fileId: string,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  try {
+    const file = await api.getFile(fileId);
+    if (!file.file_path || (file.file_size ?? 0) > maxBytes) return null;
+    const res = await fetch(
+      `https://api.telegram.org/file/bot${api.token}/${file.file_path}`
+    );
+    if (!res.ok) return null;
+    const data = new Uint8Array(await res.arrayBuffer());
+    return data.byteLength > maxBytes ? null : data;
+  } catch (e) {
+    console.error("Failed to download Telegram file:", e);
+    return null;
+  }
+}
+
 /**
  * Pick a random element from the given array.
  */
 export function pickRandom<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
+
+/**
+ * Escape user-provided text for MarkdownV2 messages.
+ */
+export function escapeMarkdownV2(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
+
+/**
+ * Escape user-provided text for legacy Markdown messages.
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[_*`[]/g, "\\$&");
+}
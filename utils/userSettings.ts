@@ -0,0 +1,61 @@
+import JsonFileDb from "./db.js";
+import { formatTaipeiTime } from "./date.js";
+
+export interface QuietHours {
+  start: string; // Taipei "HH:mm"
+  end: string; // may be earlier than start to wrap past midnight
+}
+
+export interface UserSettings {
+  // Non-urgent notifications are held back during this window
+  quiet_hours?: QuietHours;
+  // Left out of "⏰ 催一下" reminders
+  no_nag?: boolean;
+}
+
+// Per-user preferences, keyed by user id
+const settingsDb = new JsonFileDb("userSettings.json");
+
+export function getUserSettings(userId: number): UserSettings {
+  return (settingsDb.get(String(userId)) as UserSettings | undefined) ?? {};
+}
+
+/**
+ * Merge-update the settings of a user and return the result.
+ */
+export function updateUserSettings(
+  userId: number,
+  patch: Partial<UserSettings>
+): UserSettings {
+  const merged = { ...getUserSettings(userId), ...patch };
+  settingsDb.set(String(userId), merged);
+  return merged;
+}
+
+/**
+ * Parse a range such as "23:00-08:00". Return null if invalid.
+ */
+export function parseQuietHours(arg: string): QuietHours | null {
+  const match = arg.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [h1, m1, h2, m2] = match.slice(1).map(Number);
+  if (h1 > 23 || h2 > 23 || m1 > 59 || m2 > 59) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const start = `${pad(h1)}:${pad(m1)}`;
+  const end = `${pad(h2)}:${pad(m2)}`;
+  if (start === end) return null;
+  return { start, end };
+}
+
+/**
+ * Whether the user's quiet hours cover the given time.
+ */
+export function isQuietTime(userId: number, now = Date.now()): boolean {
+  const quiet = getUserSettings(userId).quiet_hours;
+  if (!quiet) return false;
+  // "HH:mm" strings compare in clock order
+  const time = formatTaipeiTime(now);
+  return quiet.start < quiet.end
+    ? time >= quiet.start && time < quiet.end
+    : time >= quiet.start || time < quiet.end;
+}